@@ -5,12 +5,16 @@ import {
   fetchMeasurements,
   updateMeasurementTag,
 } from "@/lib/supabaseQueries";
+import { stageLabel } from "@/utils/guidedProtocol";
+import { CAPTURE_MODE_LABELS, CaptureMode } from "@/utils/measurementSession";
+import { RHYTHM_DISCLAIMER, RHYTHM_LABELS, RhythmClass } from "@/utils/rhythm";
 import Ionicons from "@expo/vector-icons/Ionicons";
 import MaterialIcons from "@expo/vector-icons/MaterialIcons";
 import { useFocusEffect } from "@react-navigation/native";
 import { File, Paths } from "expo-file-system";
 import { LinearGradient } from "expo-linear-gradient";
 import * as Print from "expo-print";
+import { router } from "expo-router";
 import * as Sharing from "expo-sharing";
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
@@ -35,6 +39,19 @@ interface HistoryItem {
   created_at: string;
   heartRate: number;
   tag?: string | null;
+  rhythm?: RhythmClass | null;
+  mode?: CaptureMode | null;
+  durationMs?: number | null;
+  validReadings?: number | null;
+  meanQuality?: number | null;
+  methodAgreement?: number | null;
+  sampleRate?: number | null;
+  pauses?: number | null;
+  pausedMs?: number | null;
+  sessionId?: number | null;
+  stage?: string | null;
+  coherence?: number | null;
+  breathingRate?: number | null;
   timeStamp: string;
   userId: number;
 }
@@ -255,13 +272,44 @@ export default function History() {
 
   const exportAsCsv = async () => {
     try {
-      const header = ["id", "created_at", "heartRate", "tag"].join(",");
+      const header = [
+        "id",
+        "created_at",
+        "heartRate",
+        "tag",
+        "rhythm",
+        "mode",
+        "durationMs",
+        "validReadings",
+        "meanQuality",
+        "methodAgreement",
+        "sampleRate",
+        "pauses",
+        "pausedMs",
+        "sessionId",
+        "stage",
+        "coherence",
+        "breathingRate",
+      ].join(",");
       const rows = filteredHistory.map((h) =>
         [
           String(h.id),
           escapeCsvValue(new Date(h.created_at).toISOString()),
           String(h.heartRate),
           escapeCsvValue(h.tag ?? ""),
+          h.rhythm ?? "",
+          h.mode ?? "",
+          h.durationMs ?? "",
+          h.validReadings ?? "",
+          h.meanQuality ?? "",
+          h.methodAgreement ?? "",
+          h.sampleRate ?? "",
+          h.pauses ?? "",
+          h.pausedMs ?? "",
+          h.sessionId ?? "",
+          h.stage ?? "",
+          h.coherence ?? "",
+          h.breathingRate ?? "",
         ].join(","),
       );
       const fileName = `pulse_history_${Date.now()}.csv`;
@@ -497,6 +545,52 @@ export default function History() {
       minute: "2-digit",
     });
 
+  const formatSeconds = (ms: number) => `${Math.round(ms / 1000)} s`;
+
+  // One-line capture summary for the card, e.g. "1 Minute · 60 s · Q 72";
+  // protocol readings show their stage instead of the mode
+  const formatCaptureSummary = (item: HistoryItem) =>
+    [
+      item.stage
+        ? stageLabel(item.stage)
+        : item.mode
+          ? CAPTURE_MODE_LABELS[item.mode]
+          : null,
+      item.durationMs != null ? formatSeconds(item.durationMs) : null,
+      item.meanQuality != null ? `Q ${Math.round(item.meanQuality)}` : null,
+      item.coherence != null ? `Coherence ${item.coherence}` : null,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  const captureDetails = (item: HistoryItem) => [
+    {
+      label: "Mode",
+      value: item.mode ? CAPTURE_MODE_LABELS[item.mode] : "--",
+    },
+    {
+      label: "Duration",
+      value: item.durationMs != null ? formatSeconds(item.durationMs) : "--",
+    },
+    { label: "Readings", value: String(item.validReadings ?? "--") },
+    {
+      label: "Quality",
+      value:
+        item.meanQuality != null ? String(Math.round(item.meanQuality)) : "--",
+    },
+    {
+      label: "Agreement",
+      value:
+        item.methodAgreement != null
+          ? `${Math.round(item.methodAgreement * 100)}%`
+          : "--",
+    },
+    {
+      label: "Frame rate",
+      value: item.sampleRate != null ? `${item.sampleRate} fps` : "--",
+    },
+  ];
+
   const footerHeight = 80 + (insets.bottom || 12);
 
   if (isLoading) {
@@ -644,7 +738,12 @@ export default function History() {
                 renderRightActions={() => renderRightActions(item.id)}
               >
                 <TouchableOpacity
-                  onPress={() => openEditTag(item)}
+                  onPress={() =>
+                    router.push({
+                      pathname: "/measurement/[id]",
+                      params: { id: String(item.id) },
+                    })
+                  }
                   activeOpacity={0.85}
                   style={styles.historyCard}
                 >
@@ -656,20 +755,39 @@ export default function History() {
                       {formatTime(item.created_at)}
                     </Text>
                     {item.tag ? (
-                      <View style={styles.cardTag}>
+                      <TouchableOpacity
+                        onPress={() => openEditTag(item)}
+                        style={styles.cardTag}
+                      >
                         <Ionicons name="pricetag" size={11} color="#f0ebd8" />
                         <Text style={styles.cardTagText}>{item.tag}</Text>
-                      </View>
+                      </TouchableOpacity>
                     ) : (
-                      <View style={[styles.cardTag, styles.cardTagEmpty]}>
+                      <TouchableOpacity
+                        onPress={() => openEditTag(item)}
+                        style={[styles.cardTag, styles.cardTagEmpty]}
+                      >
                         <Ionicons
                           name="add-circle-outline"
                           size={11}
                           color="#748cab"
                         />
                         <Text style={styles.cardTagEmptyText}>Add tag</Text>
+                      </TouchableOpacity>
+                    )}
+                    {item.rhythm && (
+                      <View style={styles.cardRhythm}>
+                        <Ionicons name="pulse" size={11} color="#748cab" />
+                        <Text style={styles.cardRhythmText}>
+                          {RHYTHM_LABELS[item.rhythm]}
+                        </Text>
                       </View>
                     )}
+                    {item.mode && (
+                      <Text style={styles.cardMeta}>
+                        {formatCaptureSummary(item)}
+                      </Text>
+                    )}
                   </View>
                   <LinearGradient
                     colors={["#3e5c76", "#748cab"]}
@@ -850,6 +968,26 @@ export default function History() {
                 {formatTime(editingItem.created_at)}
               </Text>
             )}
+            {editingItem?.mode && (
+              <View style={tagModalStyles.detailsGrid}>
+                {captureDetails(editingItem).map(({ label, value }) => (
+                  <View key={label} style={tagModalStyles.detailCell}>
+                    <Text style={tagModalStyles.detailValue}>{value}</Text>
+                    <Text style={tagModalStyles.detailLabel}>{label}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+            {editingItem?.rhythm && (
+              <View style={tagModalStyles.rhythmBox}>
+                <Text style={tagModalStyles.rhythmLabel}>
+                  {RHYTHM_LABELS[editingItem.rhythm]}
+                </Text>
+                <Text style={tagModalStyles.rhythmDisclaimer}>
+                  {RHYTHM_DISCLAIMER}
+                </Text>
+              </View>
+            )}
 
             {!editCustomMode ? (
               <View style={tagModalStyles.chipsWrap}>
@@ -1090,6 +1228,22 @@ const styles = StyleSheet.create({
     color: "#748cab",
     fontWeight: "500",
   },
+  cardRhythm: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    marginTop: 6,
+  },
+  cardRhythmText: {
+    fontSize: 12,
+    color: "#748cab",
+    fontWeight: "500",
+  },
+  cardMeta: {
+    fontSize: 11,
+    color: "#748cab",
+    marginTop: 6,
+  },
   bpmBadge: {
     paddingHorizontal: 20,
     paddingVertical: 12,
@@ -1277,6 +1431,48 @@ const tagModalStyles = StyleSheet.create({
     textAlign: "center",
     marginBottom: 14,
   },
+  detailsGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 8,
+    marginBottom: 14,
+  },
+  detailCell: {
+    width: "30%",
+    alignItems: "center",
+    backgroundColor: "rgba(62,92,118,0.2)",
+    borderRadius: 10,
+    paddingVertical: 8,
+  },
+  detailValue: {
+    fontSize: 14,
+    color: "#f0ebd8",
+    fontWeight: "700",
+  },
+  detailLabel: {
+    fontSize: 10,
+    color: "#748cab",
+    marginTop: 2,
+  },
+  rhythmBox: {
+    backgroundColor: "rgba(62,92,118,0.2)",
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 14,
+  },
+  rhythmLabel: {
+    fontSize: 14,
+    color: "#f0ebd8",
+    fontWeight: "700",
+    textAlign: "center",
+  },
+  rhythmDisclaimer: {
+    fontSize: 11,
+    color: "#748cab",
+    textAlign: "center",
+    marginTop: 4,
+  },
   chipsWrap: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -1,10 +1,14 @@
 import WeeklyBpmChart from "@/components/WeeklyBpmChart";
 import {
   getHeartRateStats,
+  getProtocolSeries,
   getStatsByTag,
   getWeeklyHeartRateSeries,
+  getWeeklyRespiratorySeries,
+  ProtocolPoint,
   TagStat,
 } from "@/lib/supabaseQueries";
+import { formatMetric, ProtocolKind, PROTOCOLS } from "@/utils/guidedProtocol";
 import Ionicons from "@expo/vector-icons/Ionicons";
 import { useFocusEffect } from "@react-navigation/native";
 import { LinearGradient } from "expo-linear-gradient";
@@ -22,6 +26,26 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 
 const { width } = Dimensions.get("window");
 
+// Guided tests charted over time by their trend metric
+const PROTOCOL_TRENDS: { kind: ProtocolKind; title: string; unit: string }[] = [
+  {
+    kind: "recovery",
+    title: "Heart Rate Recovery",
+    unit: "BPM drop after 1 min",
+  },
+  {
+    kind: "orthostatic",
+    title: "Orthostatic Response",
+    unit: "BPM rise after 1 min",
+  },
+];
+
+// Tests are plotted by date, e.g. "10/18"
+const formatTestDate = (day: string) => {
+  const [, m, d] = day.split("-").map(Number);
+  return `${m}/${d}`;
+};
+
 export default function Stats() {
   const insets = useSafeAreaInsets();
   const [isLoading, setIsLoading] = useState(true);
@@ -36,19 +60,36 @@ export default function Stats() {
   const [weeklySeries, setWeeklySeries] = useState<
     { day: string; avg: number; count: number }[]
   >([]);
+  const [respirationSeries, setRespirationSeries] = useState<
+    { day: string; avg: number; count: number }[]
+  >([]);
   const [tagStats, setTagStats] = useState<TagStat[]>([]);
+  const [protocolSeries, setProtocolSeries] = useState<
+    Partial<Record<ProtocolKind, ProtocolPoint[]>>
+  >({});
 
   const loadStats = async () => {
     try {
-      const [{ data, error }, weekly, byTag] = await Promise.all([
-        getHeartRateStats(),
-        getWeeklyHeartRateSeries(),
-        getStatsByTag(),
-      ]);
+      const [{ data, error }, weekly, byTag, respiration, ...protocols] =
+        await Promise.all([
+          getHeartRateStats(),
+          getWeeklyHeartRateSeries(),
+          getStatsByTag(),
+          getWeeklyRespiratorySeries(),
+          ...PROTOCOL_TRENDS.map(({ kind }) => getProtocolSeries(kind)),
+        ]);
 
       if (!error && data) setStats(data);
       if (!weekly.error && weekly.data) setWeeklySeries(weekly.data);
+      if (!respiration.error && respiration.data) {
+        setRespirationSeries(respiration.data);
+      }
       if (!byTag.error && byTag.data) setTagStats(byTag.data);
+      const series: Partial<Record<ProtocolKind, ProtocolPoint[]>> = {};
+      protocols.forEach((p, i) => {
+        if (!p.error && p.data) series[PROTOCOL_TRENDS[i].kind] = p.data;
+      });
+      setProtocolSeries(series);
     } catch (error) {
       console.error("Error loading stats:", error);
     } finally {
@@ -138,6 +179,61 @@ export default function Stats() {
           </View>
         )}
 
+        {/* Resting Respiration */}
+        {respirationSeries.length > 0 && (
+          <View style={styles.chartCard}>
+            <Text style={styles.cardTitle}>Resting Respiration</Text>
+            <WeeklyBpmChart data={respirationSeries} unit="breaths/min" />
+          </View>
+        )}
+
+        {/* Guided tests: trend metric over time, full results of the latest */}
+        {PROTOCOL_TRENDS.map(({ kind, title, unit }) => {
+          const series = protocolSeries[kind] ?? [];
+          if (series.length === 0) return null;
+          const { metrics, trendMetric } = PROTOCOLS[kind];
+          const trend = series
+            .filter((p) => p.results[trendMetric] != null)
+            .map((p) => ({
+              day: new Date(p.created_at).toISOString().slice(0, 10),
+              avg: Math.round(p.results[trendMetric]!),
+              count: 1,
+            }));
+          return (
+            <View key={kind} style={styles.chartCard}>
+              <Text style={styles.cardTitle}>{title}</Text>
+              {trend.length > 0 && (
+                <WeeklyBpmChart
+                  data={trend}
+                  unit={unit}
+                  xLabel={formatTestDate}
+                />
+              )}
+              {series
+                .slice(-3)
+                .reverse()
+                .map((p) => (
+                  <View key={p.created_at} style={styles.tagRow}>
+                    <Text style={styles.tagName}>
+                      {new Date(p.created_at).toLocaleDateString("en-US", {
+                        month: "short",
+                        day: "numeric",
+                      })}
+                    </Text>
+                    <Text style={styles.testResults}>
+                      {metrics
+                        .map(
+                          (m) =>
+                            `${m.label} ${formatMetric(m, p.results[m.key])}`,
+                        )
+                        .join(" · ")}
+                    </Text>
+                  </View>
+                ))}
+            </View>
+          );
+        })}
+
         {/* By Tag */}
         {tagStats.length > 0 && (
           <View style={[styles.infoCard, styles.tagCardSpacing]}>
@@ -440,6 +536,14 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: "500",
   },
+  testResults: {
+    color: "#b8c5d6",
+    fontSize: 12,
+    fontWeight: "500",
+    flexShrink: 1,
+    textAlign: "right",
+    paddingLeft: 12,
+  },
 
   loadingText: {
     fontSize: 16,
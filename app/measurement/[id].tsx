@@ -0,0 +1,602 @@
+import PulseWave from "@/components/PulseWave";
+import SpectrumPlot from "@/components/SpectrumPlot";
+import {
+  fetchMeasurement,
+  fetchMeasurementSignal,
+  fetchSession,
+  MeasurementRow,
+  SessionRow,
+} from "@/lib/supabaseQueries";
+import { formatMetric, PROTOCOLS, stageLabel } from "@/utils/guidedProtocol";
+import {
+  assessSignalQuality,
+  computePowerSpectrum,
+  detectBeats,
+  estimateHeartRateFFT,
+  MAX_BPM,
+  MIN_BPM,
+  QUALITY_WEIGHTS,
+} from "@/utils/heartRateDetection";
+import {
+  CAPTURE_MODE_LABELS,
+  FILTER_SETTLE_SAMPLES,
+  SAMPLING_RATE,
+  SessionCapture,
+  WINDOW_SIZE,
+} from "@/utils/measurementSession";
+import { applyArtifactMask, expandArtifactMask } from "@/utils/motionArtifacts";
+import { RHYTHM_DISCLAIMER, RHYTHM_LABELS } from "@/utils/rhythm";
+import Ionicons from "@expo/vector-icons/Ionicons";
+import { LinearGradient } from "expo-linear-gradient";
+import { router, useLocalSearchParams } from "expo-router";
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  LayoutChangeEvent,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+const MAX_ZOOM = 8;
+const WAVE_HEIGHT = 120;
+
+const QUALITY_LABELS: Record<keyof typeof QUALITY_WEIGHTS, string> = {
+  spectral: "Spectral purity",
+  snr: "Signal-to-noise",
+  stability: "Stability",
+};
+
+export default function MeasurementDetail() {
+  const insets = useSafeAreaInsets();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [measurement, setMeasurement] = useState<MeasurementRow | null>(null);
+  const [capture, setCapture] = useState<SessionCapture | null>(null);
+  const [session, setSession] = useState<SessionRow | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const [waveWidth, setWaveWidth] = useState(0);
+
+  useEffect(() => {
+    const measurementId = Number(id);
+    if (!Number.isFinite(measurementId)) {
+      setIsLoading(false);
+      return;
+    }
+
+    const load = async () => {
+      try {
+        const [row, signal] = await Promise.all([
+          fetchMeasurement(measurementId),
+          fetchMeasurementSignal(measurementId),
+        ]);
+        if (!row.error) setMeasurement(row.data);
+        if (!signal.error) setCapture(signal.data);
+        if (row.data?.sessionId) {
+          const { data } = await fetchSession(row.data.sessionId);
+          setSession(data);
+        }
+      } catch (error) {
+        console.error("Error loading measurement:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  }, [id]);
+
+  // Re-run the offline analysis on the stored trace, with the same motion
+  // gating as the live session. The first second is dropped: the bandpass
+  // filter is still ringing there.
+  const analysis = useMemo(() => {
+    if (!capture) return null;
+    const fs = capture.sampleRate;
+    const settle = Math.round((FILTER_SETTLE_SAMPLES / SAMPLING_RATE) * fs);
+    const windowSize = Math.round((WINDOW_SIZE / SAMPLING_RATE) * fs);
+    const signal = capture.filtered.slice(settle);
+    const red = capture.red.slice(settle);
+    if (signal.length < windowSize) return null;
+
+    const mask = expandArtifactMask(capture.artifacts.slice(settle), fs);
+    const clean = applyArtifactMask(signal, mask);
+    const spectrum = computePowerSpectrum(clean, fs);
+    const peakBpm = estimateHeartRateFFT(clean, fs, spectrum);
+    const windowMask = mask.slice(-windowSize);
+    return {
+      fs,
+      signal,
+      beats: detectBeats(clean, fs).map((b) => b.index),
+      maskedS: mask.filter(Boolean).length / fs,
+      spectrum,
+      peakBpm: peakBpm > 0 ? peakBpm : null,
+      // Same window the live estimate came from: the last one analysed
+      quality: assessSignalQuality(
+        clean.slice(-windowSize),
+        fs,
+        red.slice(-windowSize).filter((_, i) => !windowMask[i]),
+      ),
+    };
+  }, [capture]);
+
+  const onWaveLayout = (e: LayoutChangeEvent) => {
+    setWaveWidth(e.nativeEvent.layout.width);
+  };
+
+  const footerHeight = 24 + (insets.bottom || 12);
+
+  if (isLoading) {
+    return (
+      <View
+        style={[
+          styles.container,
+          { justifyContent: "center", alignItems: "center" },
+        ]}
+      >
+        <ActivityIndicator size="large" color="#748cab" />
+        <Text style={styles.loadingText}>Loading measurement...</Text>
+      </View>
+    );
+  }
+
+  const details = measurement ? measurementDetails(measurement) : [];
+
+  return (
+    <ScrollView style={styles.container}>
+      <LinearGradient
+        colors={["#0d1321", "#1d2d44", "#3e5c76"]}
+        style={[styles.header, { paddingTop: insets.top + 16 }]}
+      >
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={[styles.backButton, { top: insets.top + 16 }]}
+        >
+          <Ionicons name="chevron-back" size={26} color="#f0ebd8" />
+        </TouchableOpacity>
+        <View style={styles.headerContent}>
+          <Ionicons name="pulse" size={28} color="#f0ebd8" />
+          <Text style={styles.title}>
+            {measurement ? `${measurement.heartRate} BPM` : "Measurement"}
+          </Text>
+        </View>
+        {measurement && (
+          <Text style={styles.subtitle}>
+            {new Date(measurement.created_at).toLocaleString("en-US", {
+              weekday: "short",
+              month: "short",
+              day: "numeric",
+              hour: "2-digit",
+              minute: "2-digit",
+            })}
+          </Text>
+        )}
+      </LinearGradient>
+
+      <View style={[styles.content, { paddingBottom: footerHeight }]}>
+        {!measurement ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="alert-circle-outline" size={48} color="#3e5c76" />
+            <Text style={styles.emptyTitle}>Measurement not found</Text>
+          </View>
+        ) : (
+          <>
+            {/* Waveform */}
+            <View style={styles.card}>
+              <View style={styles.cardHeader}>
+                <Text style={styles.cardTitle}>Waveform</Text>
+                {analysis && (
+                  <View style={styles.zoomControls}>
+                    <TouchableOpacity
+                      onPress={() => setZoom((z) => Math.max(z / 2, 1))}
+                      disabled={zoom <= 1}
+                      style={styles.zoomButton}
+                    >
+                      <Ionicons
+                        name="remove"
+                        size={18}
+                        color={zoom <= 1 ? "#3e5c76" : "#f0ebd8"}
+                      />
+                    </TouchableOpacity>
+                    <Text style={styles.zoomLabel}>{zoom}×</Text>
+                    <TouchableOpacity
+                      onPress={() => setZoom((z) => Math.min(z * 2, MAX_ZOOM))}
+                      disabled={zoom >= MAX_ZOOM}
+                      style={styles.zoomButton}
+                    >
+                      <Ionicons
+                        name="add"
+                        size={18}
+                        color={zoom >= MAX_ZOOM ? "#3e5c76" : "#f0ebd8"}
+                      />
+                    </TouchableOpacity>
+                  </View>
+                )}
+              </View>
+              {analysis ? (
+                <>
+                  <View onLayout={onWaveLayout}>
+                    <ScrollView horizontal showsHorizontalScrollIndicator>
+                      <View style={{ width: waveWidth * zoom }}>
+                        <PulseWave
+                          data={analysis.signal}
+                          height={WAVE_HEIGHT}
+                          markers={analysis.beats}
+                        />
+                      </View>
+                    </ScrollView>
+                  </View>
+                  <Text style={styles.caption}>
+                    {(analysis.signal.length / analysis.fs).toFixed(0)} s ·{" "}
+                    {analysis.beats.length} beats detected
+                    {analysis.maskedS >= 1 &&
+                      ` · ${analysis.maskedS.toFixed(0)} s skipped for motion`}
+                  </Text>
+                </>
+              ) : (
+                <Text style={styles.caption}>
+                  No signal was stored with this measurement.
+                </Text>
+              )}
+            </View>
+
+            {/* Spectrum */}
+            {analysis && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Power Spectrum</Text>
+                <SpectrumPlot
+                  spectrum={analysis.spectrum.powerSpectrum}
+                  freqResolution={analysis.spectrum.freqResolution}
+                  minBpm={MIN_BPM}
+                  maxBpm={MAX_BPM}
+                  peakBpm={analysis.peakBpm}
+                />
+                <Text style={styles.caption}>
+                  {analysis.peakBpm !== null
+                    ? `Dominant peak at ${Math.round(analysis.peakBpm)} BPM over the whole recording`
+                    : "No clear peak over the whole recording"}
+                </Text>
+              </View>
+            )}
+
+            {/* Quality */}
+            {analysis && (
+              <View style={styles.card}>
+                <View style={styles.cardHeader}>
+                  <Text style={styles.cardTitle}>Signal Quality</Text>
+                  <Text style={styles.qualityScore}>
+                    {Math.round(analysis.quality.score)}
+                  </Text>
+                </View>
+                {(
+                  Object.keys(
+                    QUALITY_WEIGHTS,
+                  ) as (keyof typeof QUALITY_WEIGHTS)[]
+                ).map((key) => (
+                  <View key={key} style={styles.qualityRow}>
+                    <View style={styles.qualityLabelRow}>
+                      <Text style={styles.qualityLabel}>
+                        {QUALITY_LABELS[key]}
+                      </Text>
+                      <Text style={styles.qualityWeight}>
+                        {Math.round(analysis.quality[key] * 100)}% · weight{" "}
+                        {QUALITY_WEIGHTS[key]}
+                      </Text>
+                    </View>
+                    <View style={styles.qualityTrack}>
+                      <View
+                        style={[
+                          styles.qualityFill,
+                          { width: `${analysis.quality[key] * 100}%` },
+                        ]}
+                      />
+                    </View>
+                  </View>
+                ))}
+                <Text style={styles.caption}>Final analysis window</Text>
+              </View>
+            )}
+
+            {/* Per-minute readings of a long session */}
+            {session && session.minutes.length > 0 && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>Per Minute</Text>
+                {session.minutes.map((m) => (
+                  <View key={m.minute} style={styles.minuteRow}>
+                    <Text style={styles.minuteLabel}>
+                      Minute {m.minute + 1}
+                      {m.durationMs < 60_000
+                        ? ` (${Math.round(m.durationMs / 1000)} s)`
+                        : ""}
+                    </Text>
+                    <Text style={styles.minuteValue}>
+                      {m.validReadings > 0 ? `${m.bpm} BPM` : "--"}
+                    </Text>
+                    <Text style={styles.minuteQuality}>
+                      Q {Math.round(m.meanQuality)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Results of the guided protocol the reading was part of */}
+            {session?.protocol && session.results && (
+              <View style={styles.card}>
+                <Text style={styles.cardTitle}>
+                  {PROTOCOLS[session.protocol].label} Test
+                </Text>
+                {PROTOCOLS[session.protocol].metrics.map((metric) => (
+                  <View key={metric.key} style={styles.minuteRow}>
+                    <Text style={styles.minuteLabel}>{metric.label}</Text>
+                    <Text style={styles.minuteValue}>
+                      {formatMetric(metric, session.results![metric.key])}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {/* Metadata */}
+            <View style={styles.card}>
+              <Text style={styles.cardTitle}>Details</Text>
+              <View style={styles.detailsGrid}>
+                {details.map(({ label, value }) => (
+                  <View key={label} style={styles.detailCell}>
+                    <Text style={styles.detailValue}>{value}</Text>
+                    <Text style={styles.detailLabel}>{label}</Text>
+                  </View>
+                ))}
+              </View>
+              {measurement.rhythm && (
+                <Text style={styles.caption}>{RHYTHM_DISCLAIMER}</Text>
+              )}
+            </View>
+          </>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+function measurementDetails(item: MeasurementRow) {
+  const seconds = (ms: number) => `${Math.round(ms / 1000)} s`;
+  return [
+    { label: "Tag", value: item.tag || "--" },
+    {
+      label: "Mode",
+      value: item.mode ? CAPTURE_MODE_LABELS[item.mode] : "--",
+    },
+    ...(item.stage ? [{ label: "Stage", value: stageLabel(item.stage) }] : []),
+    {
+      label: "Duration",
+      value: item.durationMs != null ? seconds(item.durationMs) : "--",
+    },
+    { label: "Readings", value: String(item.validReadings ?? "--") },
+    {
+      label: "Quality",
+      value:
+        item.meanQuality != null ? String(Math.round(item.meanQuality)) : "--",
+    },
+    {
+      label: "Agreement",
+      value:
+        item.methodAgreement != null
+          ? `${Math.round(item.methodAgreement * 100)}%`
+          : "--",
+    },
+    {
+      label: "Frame rate",
+      value: item.sampleRate != null ? `${item.sampleRate} fps` : "--",
+    },
+    {
+      label: "Pauses",
+      value:
+        item.pauses != null
+          ? item.pauses > 0 && item.pausedMs != null
+            ? `${item.pauses} (${seconds(item.pausedMs)})`
+            : String(item.pauses)
+          : "--",
+    },
+    {
+      label: "Respiration",
+      value:
+        item.respiratoryRate != null
+          ? `${Math.round(item.respiratoryRate)} /min`
+          : "--",
+    },
+    {
+      label: "Rhythm",
+      value: item.rhythm ? RHYTHM_LABELS[item.rhythm] : "--",
+    },
+    ...(item.mode === "breathing"
+      ? [
+          { label: "Coherence", value: String(item.coherence ?? "--") },
+          {
+            label: "Pacer",
+            value:
+              item.breathingRate != null ? `${item.breathingRate} /min` : "--",
+          },
+        ]
+      : []),
+  ];
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#050000",
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+    color: "#748cab",
+  },
+  header: {
+    paddingHorizontal: 20,
+    paddingBottom: 24,
+    borderBottomLeftRadius: 30,
+    borderBottomRightRadius: 30,
+  },
+  backButton: {
+    position: "absolute",
+    left: 16,
+    zIndex: 1,
+    padding: 4,
+  },
+  headerContent: {
+    flexDirection: "row",
+    justifyContent: "center",
+    alignItems: "center",
+    gap: 12,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 32,
+    fontWeight: "800",
+    color: "#f0ebd8",
+    letterSpacing: 0.5,
+  },
+  subtitle: {
+    fontSize: 15,
+    color: "#b8c5d6",
+    textAlign: "center",
+    fontWeight: "500",
+  },
+  content: {
+    padding: 16,
+  },
+  emptyState: {
+    alignItems: "center",
+    paddingVertical: 48,
+    gap: 12,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: "#f0ebd8",
+  },
+  card: {
+    backgroundColor: "#050000",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: "#3e5c76",
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    color: "#f0ebd8",
+    opacity: 0.9,
+    marginBottom: 4,
+  },
+  caption: {
+    fontSize: 12,
+    color: "#748cab",
+    marginTop: 8,
+  },
+  zoomControls: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  zoomButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 15,
+    borderWidth: 1,
+    borderColor: "#3e5c76",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  zoomLabel: {
+    fontSize: 13,
+    color: "#f0ebd8",
+    minWidth: 24,
+    textAlign: "center",
+  },
+  qualityScore: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: "#f0ebd8",
+  },
+  qualityRow: {
+    marginBottom: 12,
+  },
+  qualityLabelRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: 6,
+  },
+  qualityLabel: {
+    fontSize: 14,
+    color: "#f0ebd8",
+  },
+  qualityWeight: {
+    fontSize: 12,
+    color: "#748cab",
+  },
+  qualityTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#1d2d44",
+    overflow: "hidden",
+  },
+  qualityFill: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: "#748cab",
+  },
+  minuteRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: "#1d2d44",
+  },
+  minuteLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: "#748cab",
+  },
+  minuteValue: {
+    fontSize: 15,
+    fontWeight: "700",
+    color: "#f0ebd8",
+    marginRight: 16,
+  },
+  minuteQuality: {
+    fontSize: 12,
+    color: "#748cab",
+    minWidth: 40,
+    textAlign: "right",
+  },
+  detailsGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 8,
+  },
+  detailCell: {
+    width: "33.33%",
+    alignItems: "center",
+    paddingVertical: 10,
+  },
+  detailValue: {
+    fontSize: 16,
+    fontWeight: "700",
+    color: "#f0ebd8",
+  },
+  detailLabel: {
+    fontSize: 11,
+    color: "#748cab",
+    marginTop: 2,
+  },
+});
@@ -1,17 +1,53 @@
 import PulseWave from "@/components/PulseWave";
-import { addMeasurement } from "@/lib/supabaseQueries";
 import {
-  ButterworthFilter,
-  calculateSignalQuality,
-  computePowerSpectrum,
-  estimateBpm,
-  MAX_BPM,
-  mean,
-  MIN_BPM,
-  weightedMedian,
-} from "@/utils/heartRateDetection";
+  addMeasurement,
+  addMeasurementSignal,
+  addSession,
+  MeasurementDetails,
+} from "@/lib/supabaseQueries";
+import {
+  announce,
+  AnnounceOptions,
+  stopAnnouncements,
+} from "@/utils/announcements";
+import {
+  formatMetric,
+  GuidedProtocol,
+  ProtocolEvent,
+  ProtocolKind,
+  ProtocolResults,
+  PROTOCOLS,
+  StageResult,
+} from "@/utils/guidedProtocol";
+import { PulseMethod } from "@/utils/heartRateDetection";
+import {
+  CAPTURE_MODE_LABELS,
+  CaptureMode,
+  DEFAULT_BREATHS_PER_MINUTE,
+  MAX_CUSTOM_DURATION_MS,
+  MeasurementSession,
+  MIN_CUSTOM_DURATION_MS,
+  MinuteSummary,
+  RecordingAnalysis,
+  SAMPLING_RATE,
+  SessionCapture,
+  SessionEvent,
+  SessionSummary,
+} from "@/utils/measurementSession";
+import {
+  CELL_COUNT,
+  CELL_SIZE,
+  CELL_STRIDE,
+  CELLS_PER_ROW,
+  GRID_SIZE,
+  SATURATION_LEVEL,
+} from "@/utils/regionOfInterest";
+import { RHYTHM_DISCLAIMER, RHYTHM_LABELS } from "@/utils/rhythm";
+import { QUALITY_GUIDANCE, QualityIssue } from "@/utils/signalQuality";
 import Entypo from "@expo/vector-icons/Entypo";
 import Ionicons from "@expo/vector-icons/Ionicons";
+import { useAudioPlayer } from "expo-audio";
+import * as Haptics from "expo-haptics";
 import { LinearGradient } from "expo-linear-gradient";
 import React, {
   useCallback,
@@ -21,9 +57,12 @@ import React, {
   useState,
 } from "react";
 import {
+  AccessibilityInfo,
   Alert,
   Animated,
+  Easing,
   Modal,
+  Platform,
   StyleSheet,
   Text,
   TextInput,
@@ -40,44 +79,133 @@ import {
 import { Worklets } from "react-native-worklets-core";
 import { useResizePlugin } from "vision-camera-resize-plugin";
 
-type CaptureMode = "standard" | "minute";
-
-const SAMPLING_RATE = 30;
-
-// BPM estimation window: 6 s of signal
-const WINDOW_SIZE = 180;
-
-const FINGER_DETECTED_THRESHOLD = 80;
-const FINGER_LOST_THRESHOLD = 40;
-
-const MIN_QUALITY_SCORE = 25;
-
-const MIN_VALID_READINGS = 12;
+// Waveform redraws are throttled to ~8 Hz
+const WAVEFORM_INTERVAL_MS = 120;
+const WAVEFORM_LENGTH = 120;
+
+const CAPTURE_MODES: CaptureMode[] = [
+  "standard",
+  "minute",
+  "custom",
+  "continuous",
+];
+const CUSTOM_DURATION_STEP_MS = 30_000;
+
+const PROTOCOL_KINDS: ProtocolKind[] = ["recovery", "orthostatic"];
+// The last seconds of a countdown ask for the finger to be placed
+const FINGER_READY_MS = 5_000;
+
+// Breathing pacer range, and exhale length relative to inhale
+const MIN_BREATHS_PER_MINUTE = 4;
+const MAX_BREATHS_PER_MINUTE = 8;
+const BREATHS_PER_MINUTE_STEP = 0.5;
+const EXHALE_RATIOS = [1, 1.5, 2];
+
+const PULSE_METHODS: { method: PulseMethod; label: string }[] = [
+  { method: "green", label: "Green" },
+  { method: "red", label: "Red" },
+  { method: "chrom", label: "CHROM" },
+  { method: "pos", label: "POS" },
+];
+
+const GUIDANCE_ICONS: Record<QualityIssue, keyof typeof Ionicons.glyphMap> = {
+  motion: "hand-left",
+  partialCoverage: "scan",
+  pressure: "finger-print",
+  lowLight: "flashlight",
+};
+
+// m:ss
+const formatDuration = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Analysis results and capture metadata saved with a reading
+const measurementFields = (
+  summary: SessionSummary | null,
+  analysis: RecordingAnalysis | null,
+): MeasurementDetails => ({
+  rhythm: analysis?.rhythm ?? null,
+  respiratoryRate: analysis?.respiratoryRate ?? null,
+  ...(summary && {
+    mode: summary.mode,
+    durationMs: summary.durationMs,
+    validReadings: summary.validReadings,
+    meanQuality: Math.round(summary.meanQuality),
+    methodAgreement: summary.methodAgreement,
+    sampleRate: Math.round(summary.sampleRate * 10) / 10,
+    pauses: summary.pauses,
+    pausedMs: summary.pausedMs,
+    breathingRate: summary.breathsPerMinute,
+  }),
+  coherence: analysis?.coherence ?? null,
+});
 
-const MAX_MEASUREMENT_DURATION_MS = 45_000; // Standard mode (safety timeout)
-// Full 60 s window so the average matches the Empatica per-minute pulse rate.
-const MINUTE_MEASUREMENT_DURATION_MS = 60_000;
+// A finished guided protocol awaiting save
+interface ProtocolOutcome {
+  kind: ProtocolKind;
+  stages: StageResult[];
+  results: ProtocolResults;
+  durationMs: number;
+}
 
 export const PRESET_TAGS = ["Rest", "Low effort", "High effort"];
 
 export default function HeartRateMonitor() {
   const [isMonitoring, setIsMonitoring] = useState(false);
   const [currentBPM, setCurrentBPM] = useState<number | null>(null);
+  const [bpmUncertainty, setBpmUncertainty] = useState<number | null>(null);
   const [progress, setProgress] = useState(0);
   const [fingerDetected, setFingerDetected] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [waveform, setWaveform] = useState<number[]>([]);
+  const [beatMarkers, setBeatMarkers] = useState<number[]>([]);
+  // Optional feedback on each detected beat
+  const [beatHaptics, setBeatHaptics] = useState(false);
+  const [beatSound, setBeatSound] = useState(false);
+  // Spoken prompts; a running screen reader gets them as announcements
+  const [voicePrompts, setVoicePrompts] = useState(false);
+  const [screenReader, setScreenReader] = useState(false);
+  const [motionDetected, setMotionDetected] = useState(false);
+  const [qualityIssue, setQualityIssue] = useState<QualityIssue | null>(null);
+  // Set while paused on finger loss: how long the finger may stay off
+  const [resumeWithinMs, setResumeWithinMs] = useState<number | null>(null);
 
   const [mode, setMode] = useState<CaptureMode>("standard");
+  const [customDurationMs, setCustomDurationMs] = useState(120_000);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [minutes, setMinutes] = useState<MinuteSummary[]>([]);
+  const [pulseMethod, setPulseMethod] = useState<PulseMethod>("green");
+  const [breathsPerMinute, setBreathsPerMinute] = useState(
+    DEFAULT_BREATHS_PER_MINUTE,
+  );
+  const [exhaleRatio, setExhaleRatio] = useState(EXHALE_RATIOS[0]);
+  const [coherence, setCoherence] = useState<{
+    score: number;
+    resonant: boolean;
+  } | null>(null);
+
+  const [protocolKind, setProtocolKind] = useState<ProtocolKind | null>(null);
+  const [stageIndex, setStageIndex] = useState(0);
+  // Time left before the next stage; null while a stage is being measured
+  const [countdownMs, setCountdownMs] = useState<number | null>(null);
+  const [stageResults, setStageResults] = useState<StageResult[]>([]);
+  const [protocolOutcome, setProtocolOutcome] =
+    useState<ProtocolOutcome | null>(null);
 
   const [tagModalVisible, setTagModalVisible] = useState(false);
   const [pendingBPM, setPendingBPM] = useState<number | null>(null);
+  const [pendingAnalysis, setPendingAnalysis] =
+    useState<RecordingAnalysis | null>(null);
   const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const [customTag, setCustomTag] = useState("");
   const [showCustomInput, setShowCustomInput] = useState(false);
 
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const fadeAnim = useRef(new Animated.Value(0)).current;
+  // 0 → 1 over the inhale, 1 → 2 over the exhale
+  const breathAnim = useRef(new Animated.Value(0)).current;
 
   const device = useCameraDevice("back");
   const { hasPermission, requestPermission } = useCameraPermission();
@@ -87,38 +215,102 @@ export default function HeartRateMonitor() {
   ]);
   const { resize } = useResizePlugin();
 
-  const filter = useRef(new ButterworthFilter(SAMPLING_RATE));
-  const signal = useRef<number[]>([]);
-  const rawSignal = useRef<number[]>([]);
-  const startTime = useRef<number | null>(null);
-
-  const activeMode = useRef<CaptureMode>("standard");
-  const phase = useRef<"waiting" | "measuring">("waiting");
-  const readings = useRef<number[]>([]);
-  const lastAnalysis = useRef<number>(0);
+  const session = useRef<MeasurementSession | null>(null);
+  const protocol = useRef<GuidedProtocol | null>(null);
+  const unsubscribe = useRef<(() => void) | null>(null);
   const lastWave = useRef<number>(0);
-  const lastProgress = useRef<number>(0);
+  // Signal and metadata of the measurement awaiting save; not rendered, so
+  // kept in refs
+  const pendingCapture = useRef<SessionCapture | null>(null);
+  const pendingSummary = useRef<SessionSummary | null>(null);
+  const pendingMinutes = useRef<MinuteSummary[]>([]);
+  // Read by the event handlers, which stay subscribed for the whole
+  // measurement
+  const announceOptions = useRef<AnnounceOptions>({
+    voice: false,
+    screenReader: false,
+  });
+  const announcedMilestone = useRef(0);
+  const announcedGuidance = useRef<QualityIssue | null>(null);
+  const announcedCountdown = useRef<{ stage: number; ready: boolean } | null>(
+    null,
+  );
+
+  useEffect(() => {
+    AccessibilityInfo.isScreenReaderEnabled().then(setScreenReader);
+    const subscription = AccessibilityInfo.addEventListener(
+      "screenReaderChanged",
+      setScreenReader,
+    );
+    return () => {
+      subscription.remove();
+      stopAnnouncements();
+    };
+  }, []);
+
+  useEffect(() => {
+    announceOptions.current = { voice: voicePrompts, screenReader };
+  }, [voicePrompts, screenReader]);
+
+  const say = useCallback((message: string, inLiveRegion = false) => {
+    announce(message, announceOptions.current, inLiveRegion);
+  }, []);
+
+  const tick = useAudioPlayer(require("@/assets/sounds/beat.wav"));
+
+  // The heart icon pulses on each beat detected in the signal, not at a rate
+  // derived from the reading
+  const handleBeat = useCallback(() => {
+    Animated.sequence([
+      Animated.timing(pulseAnim, {
+        toValue: 1.2,
+        duration: 90,
+        useNativeDriver: true,
+      }),
+      Animated.timing(pulseAnim, {
+        toValue: 1,
+        duration: 220,
+        useNativeDriver: true,
+      }),
+    ]).start();
+    if (beatHaptics) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    if (beatSound) {
+      tick.seekTo(0);
+      tick.play();
+    }
+  }, [pulseAnim, beatHaptics, beatSound, tick]);
+
+  const isBreathing = !protocolKind && mode === "breathing";
 
   useEffect(() => {
-    if (fingerDetected && currentBPM) {
-      const interval = 50000 / currentBPM;
-      const pulse = Animated.sequence([
-        Animated.timing(pulseAnim, {
-          toValue: 1.2,
-          duration: interval / 3,
+    if (!isMonitoring || !isBreathing) {
+      breathAnim.setValue(0);
+      return;
+    }
+    const cycleMs = 60_000 / breathsPerMinute;
+    const inhaleMs = cycleMs / (1 + exhaleRatio);
+    const easing = Easing.inOut(Easing.sin);
+    const pacer = Animated.loop(
+      Animated.sequence([
+        Animated.timing(breathAnim, {
+          toValue: 1,
+          duration: inhaleMs,
+          easing,
           useNativeDriver: true,
         }),
-        Animated.timing(pulseAnim, {
-          toValue: 1,
-          duration: interval / 3,
+        Animated.timing(breathAnim, {
+          toValue: 2,
+          duration: cycleMs - inhaleMs,
+          easing,
           useNativeDriver: true,
         }),
-      ]);
-      Animated.loop(pulse).start();
-    } else {
-      pulseAnim.setValue(1);
-    }
-  }, [fingerDetected, currentBPM]);
+      ]),
+    );
+    pacer.start();
+    return () => pacer.stop();
+  }, [isMonitoring, isBreathing, breathsPerMinute, exhaleRatio, breathAnim]);
 
   useEffect(() => {
     Animated.timing(fadeAnim, {
@@ -128,104 +320,24 @@ export default function HeartRateMonitor() {
     }).start();
   }, [isMonitoring]);
 
-  const handleFrame = useCallback((avgRed: number) => {
-    const now = Date.now();
-
-    if (phase.current === "waiting") {
-      if (avgRed > FINGER_DETECTED_THRESHOLD) {
-        setFingerDetected(true);
-        phase.current = "measuring";
-        startTime.current = now;
-        signal.current = [];
-        rawSignal.current = [];
-        readings.current = [];
-        filter.current.reset();
-        setProgress(0);
-      } else {
-        setFingerDetected(false);
-      }
-      return;
-    }
-    if (avgRed < FINGER_LOST_THRESHOLD) {
-      setFingerDetected(false);
-      phase.current = "waiting";
-      startTime.current = null;
-      setProgress(0);
-      return;
-    }
-
-    const filtered = filter.current.process(avgRed);
-
-    signal.current.push(filtered);
-    rawSignal.current.push(avgRed);
-    if (signal.current.length > WINDOW_SIZE) {
-      signal.current.shift();
-      rawSignal.current.shift();
-    }
-
-    const elapsedMs = startTime.current !== null ? now - startTime.current : 0;
-
-    if (now - lastProgress.current > 100) {
-      lastProgress.current = now;
-      let currentProgress = 0;
-      if (activeMode.current === "minute") {
-        currentProgress = Math.min(
-          elapsedMs / MINUTE_MEASUREMENT_DURATION_MS,
-          1,
-        );
-      } else {
-        currentProgress = Math.min(signal.current.length / WINDOW_SIZE, 1);
-      }
-      setProgress(currentProgress);
-    }
-
-    // Waveform display, throttled to ~8 Hz
-    if (now - lastWave.current > 120) {
-      lastWave.current = now;
-      setWaveform(signal.current.slice(-120));
-    }
-
-    // Analysis every 500 ms once the window is full
-    if (
-      signal.current.length === WINDOW_SIZE &&
-      now - lastAnalysis.current > 500
-    ) {
-      lastAnalysis.current = now;
-
-      const spectrum = computePowerSpectrum(signal.current, SAMPLING_RATE);
-      const quality = calculateSignalQuality(
-        signal.current,
-        SAMPLING_RATE,
-        rawSignal.current,
-        spectrum,
-      );
-
-      if (quality >= MIN_QUALITY_SCORE) {
-        const bpm = estimateBpm(signal.current, SAMPLING_RATE, spectrum);
-
-        if (bpm >= MIN_BPM && bpm <= MAX_BPM) {
-          readings.current.push(bpm);
-
-          const isMinute = activeMode.current === "minute";
-          const displayBpm = isMinute
-            ? mean(readings.current)
-            : weightedMedian(readings.current.slice(-7));
-          setCurrentBPM(Math.round(displayBpm));
-
-          const hasEnoughBpm = readings.current.length >= MIN_VALID_READINGS;
-
-          if (isMinute) {
-            if (elapsedMs >= MINUTE_MEASUREMENT_DURATION_MS) {
-              finalizeMeasurement(Math.round(displayBpm));
-            }
-          } else {
-            const timedOut = elapsedMs >= MAX_MEASUREMENT_DURATION_MS;
-            if (hasEnoughBpm || timedOut) {
-              finalizeMeasurement(Math.round(displayBpm));
-            }
-          }
-        }
-      }
+  const handleFrame = useCallback((cells: number[], timestamp: number) => {
+    const guided = protocol.current;
+    if (!guided && !session.current) return;
+
+    // Frame timestamps are nanoseconds on Android, milliseconds on iOS
+    const frameTimeMs = Platform.OS === "android" ? timestamp / 1e6 : timestamp;
+    // A guided protocol runs its own session per stage, none while it counts
+    // down
+    if (guided) guided.push(cells, frameTimeMs);
+    else session.current!.push(cells, frameTimeMs);
+    const current = guided ? guided.session : session.current;
+    if (!current) return;
+
+    setMotionDetected(current.phase === "measuring" && current.motionDetected);
+    if (frameTimeMs - lastWave.current > WAVEFORM_INTERVAL_MS) {
+      lastWave.current = frameTimeMs;
+      setWaveform(current.waveform(WAVEFORM_LENGTH));
+      setBeatMarkers(current.beatMarkers(WAVEFORM_LENGTH));
     }
   }, []);
 
@@ -240,69 +352,348 @@ export default function HeartRateMonitor() {
       if (!isMonitoring) return;
 
       const resized = resize(frame, {
-        scale: { width: 16, height: 16 },
+        scale: { width: GRID_SIZE, height: GRID_SIZE },
         pixelFormat: "rgb",
         dataType: "uint8",
       });
 
-      let totalRed = 0;
-      const numPixels = resized.length / 3;
-      for (let i = 0; i < resized.length; i += 3) {
-        totalRed += resized[i];
+      // Per-cell channel sums and clipped-pixel counts
+      const cells = new Array(CELL_COUNT * CELL_STRIDE).fill(0);
+      for (let y = 0; y < GRID_SIZE; y++) {
+        for (let x = 0; x < GRID_SIZE; x++) {
+          const p = (y * GRID_SIZE + x) * 3;
+          const cell =
+            Math.floor(y / CELL_SIZE) * CELLS_PER_ROW +
+            Math.floor(x / CELL_SIZE);
+          const o = cell * CELL_STRIDE;
+          cells[o] += resized[p];
+          cells[o + 1] += resized[p + 1];
+          cells[o + 2] += resized[p + 2];
+          if (resized[p] >= SATURATION_LEVEL) cells[o + 3] += 1;
+        }
       }
 
-      sendFrameToJs(totalRed / numPixels);
+      const pixelsPerCell = CELL_SIZE * CELL_SIZE;
+      for (let i = 0; i < cells.length; i++) cells[i] /= pixelsPerCell;
+
+      sendFrameToJs(cells, frame.timestamp);
     },
     [isMonitoring, sendFrameToJs, resize],
   );
 
+  const stopMonitoring = useCallback(() => {
+    unsubscribe.current?.();
+    unsubscribe.current = null;
+    session.current = null;
+    protocol.current = null;
+    setIsMonitoring(false);
+    setCountdownMs(null);
+    setFingerDetected(false);
+    setMotionDetected(false);
+    setQualityIssue(null);
+    setResumeWithinMs(null);
+    setProgress(0);
+    stopAnnouncements();
+  }, []);
+
+  const handleSessionEvent = useCallback(
+    (event: SessionEvent) => {
+      switch (event.type) {
+        case "fingerDetected":
+          setFingerDetected(true);
+          setCurrentBPM(null);
+          setBpmUncertainty(null);
+          say("Finger detected, hold still");
+          break;
+        case "fingerLost":
+          setFingerDetected(false);
+          setQualityIssue(null);
+          setResumeWithinMs(null);
+          announcedGuidance.current = null;
+          say("Finger lost. Cover the camera and flash to start again");
+          break;
+        case "paused":
+          setResumeWithinMs(event.resumeWithinMs);
+          setQualityIssue(null);
+          announcedGuidance.current = null;
+          say(
+            `Paused, put your finger back within ${Math.round(event.resumeWithinMs / 1000)} seconds`,
+            true,
+          );
+          break;
+        case "resumed":
+          setResumeWithinMs(null);
+          say("Resumed");
+          break;
+        case "progress": {
+          setProgress(event.progress);
+          setElapsedMs(event.elapsedMs);
+          // Quarters of a fixed-length recording; continuous mode reports
+          // its minutes instead
+          const current = protocol.current?.session ?? session.current;
+          const quarter = Math.floor(event.progress * 4);
+          if (event.progress === 0) announcedMilestone.current = 0;
+          if (
+            current?.mode !== "continuous" &&
+            quarter > announcedMilestone.current &&
+            quarter < 4
+          ) {
+            announcedMilestone.current = quarter;
+            say(`${quarter * 25} percent`);
+          }
+          break;
+        }
+        case "minute":
+          setMinutes((previous) => [...previous, event.summary]);
+          say(
+            event.summary.validReadings > 0
+              ? `Minute ${event.summary.minute + 1}, ${event.summary.bpm} beats per minute`
+              : `Minute ${event.summary.minute + 1}, no reading`,
+          );
+          break;
+        case "quality":
+          setQualityIssue(event.quality.cause);
+          if (
+            event.quality.cause &&
+            event.quality.cause !== announcedGuidance.current
+          ) {
+            say(QUALITY_GUIDANCE[event.quality.cause], true);
+          }
+          announcedGuidance.current = event.quality.cause;
+          break;
+        case "beat":
+          handleBeat();
+          break;
+        case "coherence":
+          setCoherence({
+            score: event.coherence.score,
+            resonant: event.resonant,
+          });
+          break;
+        case "reading":
+          setCurrentBPM(event.bpm);
+          setBpmUncertainty(event.uncertainty);
+          break;
+        case "completed":
+          stopMonitoring();
+          setPendingBPM(event.bpm);
+          setPendingAnalysis(event.analysis);
+          pendingCapture.current = event.capture;
+          pendingSummary.current = event.summary;
+          pendingMinutes.current = event.minutes;
+          setSelectedTag(null);
+          setCustomTag("");
+          setShowCustomInput(false);
+          setTagModalVisible(true);
+          say(`Measurement complete, ${event.bpm} beats per minute`);
+          break;
+        case "aborted":
+          stopMonitoring();
+          if (event.reason === "timeout") {
+            say("No reading");
+            Alert.alert(
+              "No reading",
+              "Couldn't get a stable pulse. Cover the camera and flash completely and keep your finger still.",
+            );
+          }
+          break;
+      }
+    },
+    [stopMonitoring, handleBeat, say],
+  );
+
+  const handleProtocolEvent = useCallback(
+    (event: ProtocolEvent) => {
+      switch (event.type) {
+        case "stage": {
+          const stage = protocol.current?.definition.stages[event.stage];
+          if (stage) {
+            say(
+              `${stage.label}. ${event.stage === 0 ? stage.prompt : (stage.instruction ?? "Place your finger on the camera")}`,
+            );
+          }
+          lastWave.current = 0;
+          setStageIndex(event.stage);
+          setCountdownMs(null);
+          setCurrentBPM(null);
+          setBpmUncertainty(null);
+          setWaveform([]);
+          setBeatMarkers([]);
+          setProgress(0);
+          setElapsedMs(0);
+          break;
+        }
+        case "countdown": {
+          setStageIndex(event.stage);
+          setCountdownMs(event.remainingMs);
+          const stage = protocol.current?.definition.stages[event.stage];
+          const announced = announcedCountdown.current;
+          if (stage && announced?.stage !== event.stage) {
+            say(
+              `${stage.prompt}. Next reading in ${Math.ceil(event.remainingMs / 1000)} seconds`,
+            );
+          }
+          if (
+            event.remainingMs <= FINGER_READY_MS &&
+            !(announced?.stage === event.stage && announced.ready)
+          ) {
+            say("Get ready to place your finger");
+            announcedCountdown.current = { stage: event.stage, ready: true };
+          } else if (announced?.stage !== event.stage) {
+            announcedCountdown.current = { stage: event.stage, ready: false };
+          }
+          break;
+        }
+        case "session":
+          handleSessionEvent(event.event);
+          break;
+        case "stageCompleted": {
+          const stage = protocol.current?.definition.stages[event.stage];
+          if (stage) {
+            say(
+              event.result.bpm !== null
+                ? `${stage.label}, ${event.result.bpm} beats per minute`
+                : `${stage.label}, no reading`,
+            );
+          }
+          setStageResults((previous) => [...previous, event.result]);
+          setFingerDetected(false);
+          setQualityIssue(null);
+          setResumeWithinMs(null);
+          break;
+        }
+        case "completed": {
+          const kind = protocol.current?.kind;
+          stopMonitoring();
+          if (!kind || event.stages.every((stage) => stage.bpm === null)) {
+            say("No reading");
+            Alert.alert(
+              "No reading",
+              "Couldn't get a stable pulse at any stage. Cover the camera and flash completely and keep your finger still.",
+            );
+          } else {
+            setProtocolOutcome({
+              kind,
+              stages: event.stages,
+              results: event.results,
+              durationMs: event.durationMs,
+            });
+            const definition = PROTOCOLS[kind];
+            say(
+              [
+                `${definition.label} test complete`,
+                ...definition.metrics.map(
+                  (metric) =>
+                    `${metric.label} ${formatMetric(metric, event.results[metric.key])}`,
+                ),
+              ].join(". "),
+            );
+          }
+          break;
+        }
+        case "aborted":
+          stopMonitoring();
+          break;
+      }
+    },
+    [handleSessionEvent, stopMonitoring, say],
+  );
+
   const startMonitoring = useCallback(async () => {
     if (!hasPermission) {
       const granted = await requestPermission();
       if (!granted) return;
     }
 
-    filter.current.reset();
-    signal.current = [];
-    readings.current = [];
-    startTime.current = null;
-    lastProgress.current = 0;
+    unsubscribe.current?.();
+    if (protocolKind) {
+      const next = new GuidedProtocol(protocolKind, pulseMethod);
+      unsubscribe.current = next.subscribe(handleProtocolEvent);
+      protocol.current = next;
+      session.current = null;
+    } else {
+      const next = new MeasurementSession({
+        mode,
+        pulseMethod,
+        durationMs: customDurationMs,
+        breathsPerMinute,
+      });
+      unsubscribe.current = next.subscribe(handleSessionEvent);
+      session.current = next;
+      protocol.current = null;
+    }
     lastWave.current = 0;
-    lastAnalysis.current = 0;
     setCurrentBPM(null);
+    setBpmUncertainty(null);
     setWaveform([]);
+    setBeatMarkers([]);
     setFingerDetected(false);
-    phase.current = "waiting";
-
-    activeMode.current = mode;
-    setIsMonitoring(true);
-  }, [hasPermission, requestPermission, mode]);
-
-  const stopMonitoring = useCallback(() => {
-    setIsMonitoring(false);
-    setFingerDetected(false);
-    phase.current = "waiting";
-    startTime.current = null;
+    setMotionDetected(false);
+    setQualityIssue(null);
+    setResumeWithinMs(null);
     setProgress(0);
-  }, []);
+    setElapsedMs(0);
+    setMinutes([]);
+    setCoherence(null);
+    announcedMilestone.current = 0;
+    announcedGuidance.current = null;
+    announcedCountdown.current = null;
+    setStageIndex(0);
+    setCountdownMs(null);
+    setStageResults([]);
+    setIsMonitoring(true);
+  }, [
+    hasPermission,
+    requestPermission,
+    mode,
+    protocolKind,
+    pulseMethod,
+    customDurationMs,
+    breathsPerMinute,
+    handleSessionEvent,
+    handleProtocolEvent,
+  ]);
 
-  const finalizeMeasurement = (finalBPM: number) => {
-    stopMonitoring();
-    setPendingBPM(finalBPM);
-    setSelectedTag(null);
-    setCustomTag("");
-    setShowCustomInput(false);
-    setTagModalVisible(true);
-  };
+  // The per-frame motion flag reacts faster than the guidance updates
+  const guidance: QualityIssue | null = motionDetected
+    ? "motion"
+    : qualityIssue;
 
   const persistMeasurement = async (tagToSave: string | null) => {
     if (pendingBPM === null) return;
     setIsSaving(true);
-    const { error } = await addMeasurement(pendingBPM, tagToSave);
+    const summary = pendingSummary.current;
+    // A continuous recording also gets a session holding its minutes
+    let sessionId: number | null = null;
+    let error: { message: string } | null = null;
+    if (summary?.mode === "continuous" && pendingMinutes.current.length > 0) {
+      const session = await addSession({
+        mode: summary.mode,
+        durationMs: summary.durationMs,
+        minutes: pendingMinutes.current,
+      });
+      sessionId = session.data?.[0]?.id ?? null;
+      error = session.error;
+    }
+    const saved = await addMeasurement(pendingBPM, tagToSave, {
+      ...measurementFields(summary, pendingAnalysis),
+      sessionId,
+    });
+    error ??= saved.error;
+    // The reading itself is saved at this point; a failure to store the
+    // signal is logged but does not fail the measurement.
+    const measurementId = saved.data?.[0]?.id;
+    if (measurementId && pendingCapture.current) {
+      await addMeasurementSignal(measurementId, pendingCapture.current);
+    }
+    pendingCapture.current = null;
+    pendingSummary.current = null;
+    pendingMinutes.current = [];
     setIsSaving(false);
     setTagModalVisible(false);
     const finalBPM = pendingBPM;
     setPendingBPM(null);
+    setPendingAnalysis(null);
     if (error) {
       Alert.alert(
         "Saved",
@@ -331,6 +722,58 @@ export default function HeartRateMonitor() {
     void persistMeasurement(null);
   };
 
+  // One session for the whole protocol, with a measurement per stage that
+  // produced a reading
+  const persistProtocol = async () => {
+    if (!protocolOutcome) return;
+    const { kind, stages, results, durationMs } = protocolOutcome;
+    const definition = PROTOCOLS[kind];
+    setIsSaving(true);
+    const session = await addSession({
+      mode: "standard",
+      durationMs,
+      minutes: [],
+      protocol: kind,
+      results,
+    });
+    const sessionId = session.data?.[0]?.id ?? null;
+    let error: { message: string } | null = session.error;
+    for (const stage of stages) {
+      if (stage.bpm === null) continue;
+      const tag = definition.stages.find((s) => s.key === stage.key)?.tag;
+      const saved = await addMeasurement(stage.bpm, tag ?? null, {
+        ...measurementFields(stage.summary, stage.analysis),
+        sessionId,
+        stage: stage.key,
+      });
+      error ??= saved.error;
+      const measurementId = saved.data?.[0]?.id;
+      if (measurementId && stage.capture) {
+        await addMeasurementSignal(measurementId, stage.capture);
+      }
+    }
+    setIsSaving(false);
+    setProtocolOutcome(null);
+    const text = definition.metrics
+      .map(
+        (metric) =>
+          `${metric.label}: ${formatMetric(metric, results[metric.key])}`,
+      )
+      .join("\n");
+    if (error) {
+      Alert.alert("Saved", `${text} (Save failed: ${error.message})`);
+    } else {
+      Alert.alert("Success", text);
+    }
+  };
+
+  const tagMissing =
+    !selectedTag && (!showCustomInput || customTag.trim().length === 0);
+
+  const activeStage = protocolKind
+    ? PROTOCOLS[protocolKind].stages[stageIndex]
+    : null;
+
   if (!device || !hasPermission)
     return (
       <LinearGradient colors={["#3e5c76", "#748cab"]} style={styles.container}>
@@ -340,6 +783,7 @@ export default function HeartRateMonitor() {
           <TouchableOpacity
             onPress={requestPermission}
             style={styles.permissionBtn}
+            accessibilityRole="button"
           >
             <Text style={styles.permissionBtnText}>Grant Access</Text>
           </TouchableOpacity>
@@ -364,12 +808,68 @@ export default function HeartRateMonitor() {
       <View style={styles.overlay}>
         {isMonitoring ? (
           <Animated.View style={[styles.card, { opacity: fadeAnim }]}>
-            {!fingerDetected ? (
+            {protocolKind && activeStage && (
+              <Text style={styles.stageText} accessibilityRole="header">
+                {PROTOCOLS[protocolKind].label} test · {activeStage.label} (
+                {stageIndex + 1}/{PROTOCOLS[protocolKind].stages.length})
+              </Text>
+            )}
+            {activeStage?.instruction && countdownMs === null && (
+              <Text style={styles.stageInstruction}>
+                {activeStage.instruction}
+              </Text>
+            )}
+            {activeStage && countdownMs !== null ? (
+              <View style={styles.waitingContainer}>
+                <View
+                  style={styles.iconContainer}
+                  importantForAccessibility="no-hide-descendants"
+                  accessibilityElementsHidden
+                >
+                  <Ionicons name="timer-outline" size={54} color="black" />
+                </View>
+                <Text
+                  style={styles.instructionTitle}
+                  accessibilityRole="header"
+                >
+                  Next reading in{" "}
+                  {formatDuration(Math.ceil(countdownMs / 1000) * 1000)}
+                </Text>
+                <Text style={styles.instructionSubtitle}>
+                  {countdownMs <= FINGER_READY_MS
+                    ? "Get ready to place your finger"
+                    : activeStage.prompt}
+                </Text>
+                {stageResults.length > 0 && (
+                  <View style={styles.minuteList}>
+                    {stageResults.map((r, i) => (
+                      <View key={r.key} style={styles.minuteRow} accessible>
+                        <Text style={styles.minuteLabel}>
+                          {PROTOCOLS[protocolKind!].stages[i].label}
+                        </Text>
+                        <Text style={styles.minuteValue}>
+                          {r.bpm !== null ? `${r.bpm} BPM` : "--"}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+              </View>
+            ) : !fingerDetected ? (
               <View style={styles.waitingContainer}>
-                <View style={styles.iconContainer}>
+                <View
+                  style={styles.iconContainer}
+                  importantForAccessibility="no-hide-descendants"
+                  accessibilityElementsHidden
+                >
                   <Ionicons name="finger-print" size={54} color="black" />
                 </View>
-                <Text style={styles.instructionTitle}>Place Your Finger</Text>
+                <Text
+                  style={styles.instructionTitle}
+                  accessibilityRole="header"
+                >
+                  Place Your Finger
+                </Text>
                 <Text style={styles.instructionSubtitle}>
                   Fully cover the camera and flash
                 </Text>
@@ -379,37 +879,149 @@ export default function HeartRateMonitor() {
               </View>
             ) : (
               <View style={styles.measuringContainer}>
-                <Animated.View
-                  style={[
-                    styles.heartIconContainer,
-                    { transform: [{ scale: pulseAnim }] },
-                  ]}
-                >
-                  <LinearGradient
-                    colors={["#28080eff", "#920c0cff"]}
-                    style={styles.heartGradient}
+                {isBreathing ? (
+                  <View
+                    style={styles.pacerContainer}
+                    accessible
+                    accessibilityLabel={`Breathing pacer, ${breathsPerMinute} breaths per minute`}
                   >
-                    <Entypo name="heart" size={50} color="#fff" />
-                  </LinearGradient>
-                </Animated.View>
+                    <Animated.View
+                      style={[
+                        styles.pacerCircle,
+                        {
+                          transform: [
+                            {
+                              scale: breathAnim.interpolate({
+                                inputRange: [0, 1, 2],
+                                outputRange: [0.55, 1, 0.55],
+                              }),
+                            },
+                          ],
+                        },
+                      ]}
+                    />
+                    <Animated.Text
+                      style={[
+                        styles.pacerText,
+                        {
+                          opacity: breathAnim.interpolate({
+                            inputRange: [0, 0.1, 0.9, 1, 2],
+                            outputRange: [0, 1, 1, 0, 0],
+                          }),
+                        },
+                      ]}
+                    >
+                      Breathe in
+                    </Animated.Text>
+                    <Animated.Text
+                      style={[
+                        styles.pacerText,
+                        {
+                          opacity: breathAnim.interpolate({
+                            inputRange: [0, 1, 1.1, 1.9, 2],
+                            outputRange: [0, 0, 1, 1, 0],
+                          }),
+                        },
+                      ]}
+                    >
+                      Breathe out
+                    </Animated.Text>
+                  </View>
+                ) : (
+                  <Animated.View
+                    style={[
+                      styles.heartIconContainer,
+                      { transform: [{ scale: pulseAnim }] },
+                    ]}
+                    importantForAccessibility="no-hide-descendants"
+                    accessibilityElementsHidden
+                  >
+                    <LinearGradient
+                      colors={["#28080eff", "#920c0cff"]}
+                      style={styles.heartGradient}
+                    >
+                      <Entypo name="heart" size={50} color="#fff" />
+                    </LinearGradient>
+                  </Animated.View>
+                )}
 
-                <View style={styles.bpmContainer}>
+                <View
+                  style={styles.bpmContainer}
+                  accessible
+                  accessibilityLabel={[
+                    currentBPM
+                      ? `${currentBPM} beats per minute`
+                      : "No reading yet",
+                    currentBPM && bpmUncertainty !== null
+                      ? `plus or minus ${bpmUncertainty}`
+                      : null,
+                    isBreathing && coherence
+                      ? `coherence ${coherence.score}${coherence.resonant ? ", in tune with the pacer" : ""}`
+                      : null,
+                  ]
+                    .filter(Boolean)
+                    .join(", ")}
+                >
                   <Text style={styles.bpmText}>
                     {currentBPM ? `${currentBPM}` : "--"}
                   </Text>
                   <Text style={styles.bpmLabel}>BPM</Text>
+                  {currentBPM && bpmUncertainty !== null && (
+                    <Text style={styles.bpmUncertainty}>
+                      ± {bpmUncertainty} BPM
+                    </Text>
+                  )}
+                  {isBreathing && coherence && (
+                    <Text style={styles.coherenceText}>
+                      Coherence {coherence.score}
+                      {coherence.resonant ? " · in tune with the pacer" : ""}
+                    </Text>
+                  )}
                 </View>
 
-                {currentBPM && (
-                  <View style={styles.statusBadge}>
-                    <View style={styles.pulseIndicator} />
-                    <Text style={styles.statusText}>Measuring...</Text>
-                  </View>
-                )}
-
-                <PulseWave data={waveform} height={80} />
+                <View accessibilityLiveRegion="polite">
+                  {resumeWithinMs !== null ? (
+                    <View style={[styles.statusBadge, styles.guidanceBadge]}>
+                      <Ionicons name="pause" size={14} color="#ffb74d" />
+                      <Text style={styles.statusText}>
+                        Paused, put your finger back within{" "}
+                        {Math.round(resumeWithinMs / 1000)} s
+                      </Text>
+                    </View>
+                  ) : guidance ? (
+                    <View style={[styles.statusBadge, styles.guidanceBadge]}>
+                      <Ionicons
+                        name={GUIDANCE_ICONS[guidance]}
+                        size={14}
+                        color="#ffb74d"
+                      />
+                      <Text style={styles.statusText}>
+                        {QUALITY_GUIDANCE[guidance]}
+                      </Text>
+                    </View>
+                  ) : (
+                    currentBPM && (
+                      <View style={styles.statusBadge}>
+                        <View style={styles.pulseIndicator} />
+                        <Text style={styles.statusText}>Measuring...</Text>
+                      </View>
+                    )
+                  )}
+                </View>
 
-                <View style={styles.progressContainer}>
+                <PulseWave data={waveform} height={80} markers={beatMarkers} />
+
+                <View
+                  style={styles.progressContainer}
+                  accessible
+                  accessibilityRole="progressbar"
+                  accessibilityLabel="Progress"
+                  accessibilityValue={
+                    protocolKind || mode === "standard" || mode === "minute"
+                      ? { min: 0, max: 100, now: Math.round(progress * 100) }
+                      : { text: formatDuration(elapsedMs) }
+                  }
+                >
                   <View style={styles.progressBarWrapper}>
                     <LinearGradient
                       colors={["#28080eff", "#920c0cff"]}
@@ -422,20 +1034,49 @@ export default function HeartRateMonitor() {
                     />
                   </View>
                   <Text style={styles.progressText}>
-                    {Math.round(progress * 100)}%
+                    {protocolKind || mode === "standard" || mode === "minute"
+                      ? `${Math.round(progress * 100)}%`
+                      : formatDuration(elapsedMs)}
                   </Text>
                 </View>
+
+                {!protocolKind &&
+                  mode === "continuous" &&
+                  minutes.length > 0 && (
+                    <View style={styles.minuteList}>
+                      {minutes.slice(-3).map((m) => (
+                        <View
+                          key={m.minute}
+                          style={styles.minuteRow}
+                          accessible
+                        >
+                          <Text style={styles.minuteLabel}>
+                            Minute {m.minute + 1}
+                          </Text>
+                          <Text style={styles.minuteValue}>
+                            {m.validReadings > 0 ? `${m.bpm} BPM` : "--"}
+                          </Text>
+                        </View>
+                      ))}
+                    </View>
+                  )}
               </View>
             )}
 
             <TouchableOpacity
-              onPress={stopMonitoring}
+              onPress={() => (protocol.current ?? session.current)?.stop()}
               style={styles.cancelBtn}
               activeOpacity={0.7}
               disabled={isSaving}
+              accessibilityRole="button"
+              accessibilityState={{ disabled: isSaving }}
             >
               <Text style={styles.cancelText}>
-                {isSaving ? "Saving..." : "Cancel"}
+                {isSaving
+                  ? "Saving..."
+                  : !protocolKind && mode === "continuous" && currentBPM
+                    ? "Finish"
+                    : "Cancel"}
               </Text>
             </TouchableOpacity>
           </Animated.View>
@@ -445,55 +1086,305 @@ export default function HeartRateMonitor() {
               <LinearGradient
                 colors={["#28080eff", "#920c0cff"]}
                 style={styles.welcomeIconContainer}
+                importantForAccessibility="no-hide-descendants"
+                accessibilityElementsHidden
               >
                 <Entypo name="heart" size={60} color="#fff" />
               </LinearGradient>
-              <Text style={styles.welcomeTitle}>Heart Rate Monitor</Text>
+              <Text style={styles.welcomeTitle} accessibilityRole="header">
+                Heart Rate Monitor
+              </Text>
               <Text style={styles.welcomeSubtitle}>
-                {mode === "standard"
-                  ? "Quick measurement (about 15 seconds)"
-                  : "Continuous measurement for 60 seconds"}
+                {protocolKind
+                  ? PROTOCOLS[protocolKind].description
+                  : mode === "breathing"
+                    ? `Paced breathing for ${formatDuration(customDurationMs)}, scoring how coherent your heart rhythm becomes`
+                    : mode === "standard"
+                      ? "Quick measurement (about 15 seconds)"
+                      : mode === "minute"
+                        ? "Continuous measurement for 60 seconds"
+                        : mode === "custom"
+                          ? `Measurement for ${formatDuration(customDurationMs)}`
+                          : "Records until you finish, with a reading every minute"}
               </Text>
             </View>
 
             <View style={styles.modeToggle}>
-              <TouchableOpacity
-                onPress={() => setMode("standard")}
-                style={[
-                  styles.modeBtn,
-                  mode === "standard" && styles.modeBtnActive,
-                ]}
-                activeOpacity={0.8}
-              >
-                <Text
+              {CAPTURE_MODES.map((m) => (
+                <TouchableOpacity
+                  key={m}
+                  onPress={() => {
+                    setMode(m);
+                    setProtocolKind(null);
+                  }}
                   style={[
-                    styles.modeBtnText,
-                    mode === "standard" && styles.modeBtnTextActive,
+                    styles.methodBtn,
+                    !protocolKind && mode === m && styles.modeBtnActive,
                   ]}
+                  activeOpacity={0.8}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: !protocolKind && mode === m }}
+                >
+                  <Text
+                    style={[
+                      styles.modeBtnText,
+                      !protocolKind && mode === m && styles.modeBtnTextActive,
+                    ]}
+                  >
+                    {CAPTURE_MODE_LABELS[m]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {!protocolKind && (mode === "custom" || mode === "breathing") && (
+              <View style={styles.durationStepper}>
+                <TouchableOpacity
+                  onPress={() =>
+                    setCustomDurationMs((d) =>
+                      Math.max(
+                        d - CUSTOM_DURATION_STEP_MS,
+                        MIN_CUSTOM_DURATION_MS,
+                      ),
+                    )
+                  }
+                  disabled={customDurationMs <= MIN_CUSTOM_DURATION_MS}
+                  style={styles.stepperBtn}
+                  activeOpacity={0.8}
+                  accessibilityRole="button"
+                  accessibilityLabel="Shorter"
+                  accessibilityState={{
+                    disabled: customDurationMs <= MIN_CUSTOM_DURATION_MS,
+                  }}
                 >
-                  Standard
+                  <Ionicons name="remove" size={18} color="#fff" />
+                </TouchableOpacity>
+                <Text
+                  style={styles.durationText}
+                  accessibilityLabel={`Duration ${formatDuration(customDurationMs)}`}
+                >
+                  {formatDuration(customDurationMs)}
                 </Text>
-              </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() =>
+                    setCustomDurationMs((d) =>
+                      Math.min(
+                        d + CUSTOM_DURATION_STEP_MS,
+                        MAX_CUSTOM_DURATION_MS,
+                      ),
+                    )
+                  }
+                  disabled={customDurationMs >= MAX_CUSTOM_DURATION_MS}
+                  style={styles.stepperBtn}
+                  activeOpacity={0.8}
+                  accessibilityRole="button"
+                  accessibilityLabel="Longer"
+                  accessibilityState={{
+                    disabled: customDurationMs >= MAX_CUSTOM_DURATION_MS,
+                  }}
+                >
+                  <Ionicons name="add" size={18} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            )}
+
+            {isBreathing && (
+              <>
+                <View style={styles.durationStepper}>
+                  <TouchableOpacity
+                    onPress={() =>
+                      setBreathsPerMinute((b) =>
+                        Math.max(
+                          b - BREATHS_PER_MINUTE_STEP,
+                          MIN_BREATHS_PER_MINUTE,
+                        ),
+                      )
+                    }
+                    disabled={breathsPerMinute <= MIN_BREATHS_PER_MINUTE}
+                    style={styles.stepperBtn}
+                    activeOpacity={0.8}
+                    accessibilityRole="button"
+                    accessibilityLabel="Slower breathing"
+                    accessibilityState={{
+                      disabled: breathsPerMinute <= MIN_BREATHS_PER_MINUTE,
+                    }}
+                  >
+                    <Ionicons name="remove" size={18} color="#fff" />
+                  </TouchableOpacity>
+                  <Text style={styles.durationText}>
+                    {breathsPerMinute} breaths/min
+                  </Text>
+                  <TouchableOpacity
+                    onPress={() =>
+                      setBreathsPerMinute((b) =>
+                        Math.min(
+                          b + BREATHS_PER_MINUTE_STEP,
+                          MAX_BREATHS_PER_MINUTE,
+                        ),
+                      )
+                    }
+                    disabled={breathsPerMinute >= MAX_BREATHS_PER_MINUTE}
+                    style={styles.stepperBtn}
+                    activeOpacity={0.8}
+                    accessibilityRole="button"
+                    accessibilityLabel="Faster breathing"
+                    accessibilityState={{
+                      disabled: breathsPerMinute >= MAX_BREATHS_PER_MINUTE,
+                    }}
+                  >
+                    <Ionicons name="add" size={18} color="#fff" />
+                  </TouchableOpacity>
+                </View>
+
+                <Text style={styles.methodLabel}>Inhale : exhale</Text>
+                <View style={styles.modeToggle}>
+                  {EXHALE_RATIOS.map((ratio) => (
+                    <TouchableOpacity
+                      key={ratio}
+                      onPress={() => setExhaleRatio(ratio)}
+                      style={[
+                        styles.methodBtn,
+                        exhaleRatio === ratio && styles.modeBtnActive,
+                      ]}
+                      activeOpacity={0.8}
+                      accessibilityRole="button"
+                      accessibilityLabel={`Inhale 1, exhale ${ratio}`}
+                      accessibilityState={{ selected: exhaleRatio === ratio }}
+                    >
+                      <Text
+                        style={[
+                          styles.modeBtnText,
+                          exhaleRatio === ratio && styles.modeBtnTextActive,
+                        ]}
+                      >
+                        1:{ratio}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            )}
+
+            <Text style={styles.methodLabel}>Guided</Text>
+            <View style={styles.modeToggle}>
               <TouchableOpacity
-                onPress={() => setMode("minute")}
-                style={[
-                  styles.modeBtn,
-                  mode === "minute" && styles.modeBtnActive,
-                ]}
+                onPress={() => {
+                  setMode("breathing");
+                  setProtocolKind(null);
+                }}
+                style={[styles.methodBtn, isBreathing && styles.modeBtnActive]}
                 activeOpacity={0.8}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isBreathing }}
               >
                 <Text
                   style={[
                     styles.modeBtnText,
-                    mode === "minute" && styles.modeBtnTextActive,
+                    isBreathing && styles.modeBtnTextActive,
                   ]}
                 >
-                  1 Minute
+                  {CAPTURE_MODE_LABELS.breathing}
                 </Text>
               </TouchableOpacity>
+              {PROTOCOL_KINDS.map((kind) => (
+                <TouchableOpacity
+                  key={kind}
+                  onPress={() =>
+                    setProtocolKind(protocolKind === kind ? null : kind)
+                  }
+                  style={[
+                    styles.methodBtn,
+                    protocolKind === kind && styles.modeBtnActive,
+                  ]}
+                  activeOpacity={0.8}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${PROTOCOLS[kind].label} test`}
+                  accessibilityState={{ selected: protocolKind === kind }}
+                >
+                  <Text
+                    style={[
+                      styles.modeBtnText,
+                      protocolKind === kind && styles.modeBtnTextActive,
+                    ]}
+                  >
+                    {PROTOCOLS[kind].label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.methodLabel}>Signal</Text>
+            <View style={styles.modeToggle}>
+              {PULSE_METHODS.map(({ method, label }) => (
+                <TouchableOpacity
+                  key={method}
+                  onPress={() => setPulseMethod(method)}
+                  style={[
+                    styles.methodBtn,
+                    pulseMethod === method && styles.modeBtnActive,
+                  ]}
+                  activeOpacity={0.8}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: pulseMethod === method }}
+                >
+                  <Text
+                    style={[
+                      styles.modeBtnText,
+                      pulseMethod === method && styles.modeBtnTextActive,
+                    ]}
+                  >
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.methodLabel}>Feedback</Text>
+            <View style={styles.modeToggle}>
+              {[
+                {
+                  label: "Vibrate",
+                  description: "Vibrate on each beat",
+                  on: beatHaptics,
+                  toggle: setBeatHaptics,
+                },
+                {
+                  label: "Beat sound",
+                  description: "Sound on each beat",
+                  on: beatSound,
+                  toggle: setBeatSound,
+                },
+                {
+                  label: "Voice",
+                  description: "Spoken prompts",
+                  on: voicePrompts,
+                  toggle: setVoicePrompts,
+                },
+              ].map(({ label, description, on, toggle }) => (
+                <TouchableOpacity
+                  key={label}
+                  onPress={() => toggle(!on)}
+                  style={[styles.methodBtn, on && styles.modeBtnActive]}
+                  activeOpacity={0.8}
+                  accessibilityRole="switch"
+                  accessibilityLabel={description}
+                  accessibilityState={{ checked: on }}
+                >
+                  <Text
+                    style={[styles.modeBtnText, on && styles.modeBtnTextActive]}
+                  >
+                    {label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
             </View>
 
-            <TouchableOpacity onPress={startMonitoring} activeOpacity={0.8}>
+            <TouchableOpacity
+              onPress={startMonitoring}
+              activeOpacity={0.8}
+              accessibilityRole="button"
+              accessibilityLabel="Start measurement"
+            >
               <LinearGradient
                 colors={["#28080eff", "#ed0909ff"]}
                 start={{ x: 0, y: 0 }}
@@ -515,14 +1406,116 @@ export default function HeartRateMonitor() {
         onRequestClose={handleSkipTag}
       >
         <View style={tagStyles.overlay}>
-          <View style={tagStyles.sheet}>
-            <Text style={tagStyles.title}>Measurement complete</Text>
-            <View style={tagStyles.bpmRow}>
+          <View style={tagStyles.sheet} accessibilityViewIsModal>
+            <Text style={tagStyles.title} accessibilityRole="header">
+              Measurement complete
+            </Text>
+            <View
+              style={tagStyles.bpmRow}
+              accessible
+              accessibilityLabel={`${pendingBPM ?? "No"} beats per minute`}
+            >
               <Text style={tagStyles.bpmBig}>{pendingBPM ?? "--"}</Text>
               <Text style={tagStyles.bpmUnit}>BPM</Text>
             </View>
 
-            <Text style={tagStyles.subtitle}>Add a tag (optional)</Text>
+            {pendingAnalysis?.respiratoryRate != null && (
+              <Text style={tagStyles.respirationText}>
+                Respiration {pendingAnalysis.respiratoryRate} breaths/min
+              </Text>
+            )}
+
+            {pendingAnalysis?.coherence != null && (
+              <Text style={tagStyles.respirationText}>
+                Coherence {pendingAnalysis.coherence}
+                {pendingSummary.current?.breathsPerMinute != null
+                  ? ` · pacer ${pendingSummary.current.breathsPerMinute} breaths/min`
+                  : ""}
+              </Text>
+            )}
+
+            {pendingMinutes.current.length > 1 && (
+              <Text style={tagStyles.respirationText}>
+                Per minute:{" "}
+                {pendingMinutes.current
+                  .map((m) => (m.validReadings > 0 ? m.bpm : "--"))
+                  .join(" · ")}{" "}
+                BPM
+              </Text>
+            )}
+
+            {pendingAnalysis?.hrv && (
+              <View style={tagStyles.hrvGrid}>
+                <View
+                  style={tagStyles.hrvItem}
+                  accessible
+                  accessibilityLabel={`RMSSD ${Math.round(pendingAnalysis.hrv.rmssd)} milliseconds`}
+                >
+                  <Text style={tagStyles.hrvValue}>
+                    {Math.round(pendingAnalysis.hrv.rmssd)}
+                  </Text>
+                  <Text style={tagStyles.hrvLabel}>RMSSD ms</Text>
+                </View>
+                <View
+                  style={tagStyles.hrvItem}
+                  accessible
+                  accessibilityLabel={`SDNN ${Math.round(pendingAnalysis.hrv.sdnn)} milliseconds`}
+                >
+                  <Text style={tagStyles.hrvValue}>
+                    {Math.round(pendingAnalysis.hrv.sdnn)}
+                  </Text>
+                  <Text style={tagStyles.hrvLabel}>SDNN ms</Text>
+                </View>
+                <View
+                  style={tagStyles.hrvItem}
+                  accessible
+                  accessibilityLabel={`pNN50 ${Math.round(pendingAnalysis.hrv.pnn50)} percent`}
+                >
+                  <Text style={tagStyles.hrvValue}>
+                    {Math.round(pendingAnalysis.hrv.pnn50)}%
+                  </Text>
+                  <Text style={tagStyles.hrvLabel}>pNN50</Text>
+                </View>
+                <View
+                  style={tagStyles.hrvItem}
+                  accessible
+                  accessibilityLabel={`LF to HF ratio ${pendingAnalysis.hrv.lfHf.toFixed(1)}`}
+                >
+                  <Text style={tagStyles.hrvValue}>
+                    {pendingAnalysis.hrv.lfHf.toFixed(1)}
+                  </Text>
+                  <Text style={tagStyles.hrvLabel}>LF/HF</Text>
+                </View>
+              </View>
+            )}
+
+            {pendingAnalysis?.rhythm && (
+              <View style={tagStyles.rhythmBox}>
+                <View style={tagStyles.rhythmRow} accessible>
+                  <Ionicons
+                    name={
+                      pendingAnalysis.rhythm === "irregular"
+                        ? "alert-circle-outline"
+                        : pendingAnalysis.rhythm === "regular"
+                          ? "checkmark-circle-outline"
+                          : "help-circle-outline"
+                    }
+                    size={16}
+                    color="#f0ebd8"
+                  />
+                  <Text style={tagStyles.rhythmLabel}>
+                    {RHYTHM_LABELS[pendingAnalysis.rhythm]}
+                  </Text>
+                </View>
+                <Text style={tagStyles.rhythmDisclaimer}>
+                  {RHYTHM_DISCLAIMER}
+                </Text>
+              </View>
+            )}
+
+            <Text style={tagStyles.subtitle} accessibilityRole="header">
+              Add a tag (optional)
+            </Text>
 
             {!showCustomInput ? (
               <>
@@ -535,6 +1528,9 @@ export default function HeartRateMonitor() {
                         onPress={() => setSelectedTag(active ? null : t)}
                         style={[tagStyles.chip, active && tagStyles.chipActive]}
                         activeOpacity={0.8}
+                        accessibilityRole="button"
+                        accessibilityLabel={`Tag ${t}`}
+                        accessibilityState={{ selected: active }}
                       >
                         <Text
                           style={[
@@ -554,6 +1550,9 @@ export default function HeartRateMonitor() {
                     }}
                     style={[tagStyles.chip, tagStyles.chipCustom]}
                     activeOpacity={0.8}
+                    accessibilityRole="button"
+                    accessibilityLabel="Custom tag"
+                    accessibilityHint="Type your own tag"
                   >
                     <Ionicons name="add" size={14} color="#f0ebd8" />
                     <Text style={tagStyles.chipText}>Custom</Text>
@@ -570,6 +1569,11 @@ export default function HeartRateMonitor() {
                   style={tagStyles.input}
                   maxLength={40}
                   autoFocus
+                  accessibilityLabel="Custom tag"
+                  returnKeyType="done"
+                  onSubmitEditing={() => {
+                    if (customTag.trim().length > 0) handleSaveWithTag();
+                  }}
                 />
                 <TouchableOpacity
                   onPress={() => {
@@ -577,6 +1581,7 @@ export default function HeartRateMonitor() {
                     setCustomTag("");
                   }}
                   style={tagStyles.backBtn}
+                  accessibilityRole="button"
                 >
                   <Ionicons name="arrow-back" size={16} color="#748cab" />
                   <Text style={tagStyles.backBtnText}>Back to suggestions</Text>
@@ -590,6 +1595,9 @@ export default function HeartRateMonitor() {
                 style={tagStyles.skipBtn}
                 disabled={isSaving}
                 activeOpacity={0.7}
+                accessibilityRole="button"
+                accessibilityLabel="Save without a tag"
+                accessibilityState={{ disabled: isSaving }}
               >
                 <Text style={tagStyles.skipText}>
                   {isSaving ? "..." : "Skip"}
@@ -599,17 +1607,16 @@ export default function HeartRateMonitor() {
                 onPress={handleSaveWithTag}
                 style={[
                   tagStyles.saveBtn,
-                  (isSaving ||
-                    (!selectedTag &&
-                      (!showCustomInput || customTag.trim().length === 0))) &&
-                    tagStyles.saveBtnDisabled,
+                  (isSaving || tagMissing) && tagStyles.saveBtnDisabled,
                 ]}
-                disabled={
-                  isSaving ||
-                  (!selectedTag &&
-                    (!showCustomInput || customTag.trim().length === 0))
-                }
+                disabled={isSaving || tagMissing}
                 activeOpacity={0.8}
+                accessibilityRole="button"
+                accessibilityLabel="Save with tag"
+                accessibilityHint={
+                  tagMissing ? "Choose or type a tag first" : undefined
+                }
+                accessibilityState={{ disabled: isSaving || tagMissing }}
               >
                 <Text style={tagStyles.saveText}>
                   {isSaving ? "Saving..." : "Save"}
@@ -619,6 +1626,84 @@ export default function HeartRateMonitor() {
           </View>
         </View>
       </Modal>
+
+      <Modal
+        visible={protocolOutcome !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setProtocolOutcome(null)}
+      >
+        {protocolOutcome && (
+          <View style={tagStyles.overlay}>
+            <View style={tagStyles.sheet} accessibilityViewIsModal>
+              <Text style={tagStyles.title} accessibilityRole="header">
+                {PROTOCOLS[protocolOutcome.kind].label} test complete
+              </Text>
+
+              <View style={tagStyles.hrvGrid}>
+                {PROTOCOLS[protocolOutcome.kind].metrics.map((metric) => (
+                  <View
+                    key={metric.key}
+                    style={tagStyles.hrvItem}
+                    accessible
+                    accessibilityLabel={`${metric.label} ${formatMetric(metric, protocolOutcome.results[metric.key])}`}
+                  >
+                    <Text style={tagStyles.hrvValue}>
+                      {formatMetric(
+                        metric,
+                        protocolOutcome.results[metric.key],
+                        false,
+                      )}
+                    </Text>
+                    <Text style={tagStyles.hrvLabel}>{metric.label}</Text>
+                  </View>
+                ))}
+              </View>
+
+              {protocolOutcome.stages.map((stage, i) => (
+                <View key={stage.key} style={tagStyles.stageRow} accessible>
+                  <Text style={tagStyles.stageLabel}>
+                    {PROTOCOLS[protocolOutcome.kind].stages[i].label}
+                  </Text>
+                  <Text style={tagStyles.stageValue}>
+                    {stage.bpm !== null ? `${stage.bpm} BPM` : "--"}
+                  </Text>
+                </View>
+              ))}
+
+              <View style={tagStyles.actions}>
+                <TouchableOpacity
+                  onPress={() => setProtocolOutcome(null)}
+                  style={tagStyles.skipBtn}
+                  disabled={isSaving}
+                  activeOpacity={0.7}
+                  accessibilityRole="button"
+                  accessibilityLabel="Discard test"
+                  accessibilityState={{ disabled: isSaving }}
+                >
+                  <Text style={tagStyles.skipText}>Discard</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => void persistProtocol()}
+                  style={[
+                    tagStyles.saveBtn,
+                    isSaving && tagStyles.saveBtnDisabled,
+                  ]}
+                  disabled={isSaving}
+                  activeOpacity={0.8}
+                  accessibilityRole="button"
+                  accessibilityLabel="Save test"
+                  accessibilityState={{ disabled: isSaving }}
+                >
+                  <Text style={tagStyles.saveText}>
+                    {isSaving ? "Saving..." : "Save"}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        )}
+      </Modal>
     </View>
   );
 }
@@ -687,11 +1772,44 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "rgba(233,69,96,0.25)",
   },
-  modeBtn: {
-    paddingHorizontal: 22,
-    paddingVertical: 10,
+  methodLabel: {
+    color: "#a0a0a0",
+    fontSize: 12,
+    fontWeight: "600",
+    letterSpacing: 1,
+    textTransform: "uppercase",
+    marginTop: -12,
+    marginBottom: 8,
+  },
+  methodBtn: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
     borderRadius: 999,
   },
+  durationStepper: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 16,
+    marginTop: -12,
+    marginBottom: 24,
+  },
+  stepperBtn: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    borderWidth: 1,
+    borderColor: "rgba(233,69,96,0.25)",
+    backgroundColor: "rgba(255,255,255,0.06)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  durationText: {
+    color: "#fff",
+    fontSize: 18,
+    fontWeight: "700",
+    minWidth: 56,
+    textAlign: "center",
+  },
   modeBtnActive: {
     backgroundColor: "#920c0cff",
   },
@@ -782,6 +1900,26 @@ const styles = StyleSheet.create({
 
   measuringContainer: { alignItems: "center", width: "100%" },
   heartIconContainer: { marginBottom: 12 },
+  pacerContainer: {
+    width: 140,
+    height: 140,
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  pacerCircle: {
+    ...StyleSheet.absoluteFillObject,
+    borderRadius: 70,
+    backgroundColor: "rgba(116,140,171,0.35)",
+    borderWidth: 2,
+    borderColor: "#748cab",
+  },
+  pacerText: {
+    position: "absolute",
+    color: "#fff",
+    fontSize: 16,
+    fontWeight: "700",
+  },
   heartGradient: {
     width: 80,
     height: 80,
@@ -808,6 +1946,18 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     letterSpacing: 2,
   },
+  coherenceText: {
+    color: "#b8c5d6",
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: 6,
+  },
+  bpmUncertainty: {
+    color: "#a0a0a0",
+    fontSize: 13,
+    fontWeight: "500",
+    marginTop: 4,
+  },
 
   statusBadge: {
     flexDirection: "row",
@@ -821,6 +1971,10 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: "rgba(233,69,96,0.3)",
   },
+  guidanceBadge: {
+    backgroundColor: "rgba(255,152,0,0.15)",
+    borderColor: "rgba(255,152,0,0.4)",
+  },
   pulseIndicator: {
     width: 8,
     height: 8,
@@ -846,6 +2000,30 @@ const styles = StyleSheet.create({
   },
   progressFill: { height: "100%", borderRadius: 4 },
   progressText: { color: "#a0a0a0", fontSize: 13, fontWeight: "600" },
+  minuteList: { width: "100%", marginTop: 12, gap: 4 },
+  minuteRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingHorizontal: 4,
+  },
+  minuteLabel: { color: "#a0a0a0", fontSize: 13 },
+  stageText: {
+    color: "#a0a0a0",
+    fontSize: 12,
+    fontWeight: "600",
+    letterSpacing: 1,
+    textTransform: "uppercase",
+    marginBottom: 12,
+  },
+  stageInstruction: {
+    color: "#ffb74d",
+    fontSize: 15,
+    fontWeight: "600",
+    textAlign: "center",
+    marginTop: -4,
+    marginBottom: 12,
+  },
+  minuteValue: { color: "#e0e0e0", fontSize: 13, fontWeight: "600" },
 
   cancelBtn: {
     marginTop: 14,
@@ -901,6 +2079,57 @@ const tagStyles = StyleSheet.create({
     fontWeight: "700",
     marginLeft: 8,
   },
+  respirationText: {
+    color: "#b8c5d6",
+    fontSize: 13,
+    fontWeight: "600",
+    textAlign: "center",
+    marginTop: -10,
+    marginBottom: 16,
+  },
+  hrvGrid: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 12,
+    marginBottom: 16,
+    borderTopWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: "rgba(62,92,118,0.5)",
+  },
+  hrvItem: { alignItems: "center", flex: 1 },
+  hrvValue: { color: "#f0ebd8", fontSize: 18, fontWeight: "700" },
+  hrvLabel: {
+    color: "#748cab",
+    fontSize: 11,
+    fontWeight: "600",
+    marginTop: 2,
+  },
+  rhythmBox: {
+    backgroundColor: "rgba(62,92,118,0.2)",
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  rhythmRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+  },
+  rhythmLabel: { color: "#f0ebd8", fontSize: 14, fontWeight: "700" },
+  rhythmDisclaimer: {
+    color: "#748cab",
+    fontSize: 11,
+    textAlign: "center",
+    marginTop: 4,
+  },
+  stageRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4,
+  },
+  stageLabel: { color: "#b8c5d6", fontSize: 14 },
+  stageValue: { color: "#f0ebd8", fontSize: 14, fontWeight: "700" },
   subtitle: {
     fontSize: 14,
     color: "#b8c5d6",
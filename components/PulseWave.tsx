@@ -1,36 +1,50 @@
 import React, { useMemo, useState } from "react";
 import { LayoutChangeEvent, StyleSheet, View } from "react-native";
-import Svg, { Polyline } from "react-native-svg";
+import Svg, { Circle, Polyline } from "react-native-svg";
 
 type Props = {
   data: number[];
   height?: number;
+  // Fractional sample indices to mark on the trace (e.g. detected beats)
+  markers?: number[];
 };
 
-export default function PulseWave({ data, height = 80 }: Props) {
+export default function PulseWave({ data, height = 80, markers }: Props) {
   const [width, setWidth] = useState(0);
 
-  const points = useMemo(() => {
-    if (!data || data.length < 2 || width === 0) return "";
+  const { points, dots } = useMemo(() => {
+    if (!data || data.length < 2 || width === 0) {
+      return { points: "", dots: [] };
+    }
     const min = Math.min(...data);
     const max = Math.max(...data);
     const range = max - min || 1;
+    const toX = (i: number) => (i / (data.length - 1)) * width;
+    const toY = (v: number) => height - ((v - min) / range) * height;
 
-    return data
-      .map((v, i) => {
-        const x = (i / (data.length - 1)) * width;
-        const y = height - ((v - min) / range) * height;
-        return `${x},${y}`;
-      })
-      .join(" ");
-  }, [data, width, height]);
+    const points = data.map((v, i) => `${toX(i)},${toY(v)}`).join(" ");
+    const dots = (markers ?? [])
+      .filter((m) => m >= 0 && m <= data.length - 1)
+      .map((m) => {
+        const i = Math.floor(m);
+        const next = data[Math.min(i + 1, data.length - 1)];
+        const v = data[i] + (next - data[i]) * (m - i);
+        return { x: toX(m), y: toY(v) };
+      });
+    return { points, dots };
+  }, [data, width, height, markers]);
 
   const onLayout = (e: LayoutChangeEvent) => {
     setWidth(e.nativeEvent.layout.width);
   };
 
   return (
-    <View style={[styles.container, { height }]} onLayout={onLayout}>
+    <View
+      style={[styles.container, { height }]}
+      onLayout={onLayout}
+      importantForAccessibility="no-hide-descendants"
+      accessibilityElementsHidden
+    >
       {width > 0 && (
         <Svg width={width} height={height}>
           <Polyline
@@ -39,6 +53,9 @@ export default function PulseWave({ data, height = 80 }: Props) {
             stroke="#f0ebd8"
             strokeWidth={2}
           />
+          {dots.map((d, i) => (
+            <Circle key={i} cx={d.x} cy={d.y} r={3.5} fill="#920c0cff" />
+          ))}
         </Svg>
       )}
     </View>
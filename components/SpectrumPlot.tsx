@@ -0,0 +1,119 @@
+import React from "react";
+import { StyleSheet, View } from "react-native";
+import Svg, { Line, Polyline, Text as SvgText } from "react-native-svg";
+
+type Props = {
+  // Magnitude spectrum and its bin spacing, as from computePowerSpectrum
+  spectrum: ArrayLike<number>;
+  freqResolution: number;
+  // Shown range, in BPM
+  minBpm: number;
+  maxBpm: number;
+  // Chosen peak, in BPM; null when the estimator abstained
+  peakBpm: number | null;
+};
+
+const VB_W = 320;
+const VB_H = 140;
+const PAD_L = 8;
+const PAD_R = 8;
+const PAD_T = 18;
+const PAD_B = 22;
+const PLOT_W = VB_W - PAD_L - PAD_R;
+const PLOT_H = VB_H - PAD_T - PAD_B;
+
+const TICK_STEP_BPM = 40;
+
+export default function SpectrumPlot({
+  spectrum,
+  freqResolution,
+  minBpm,
+  maxBpm,
+  peakBpm,
+}: Props) {
+  const binOf = (bpm: number) => bpm / 60 / freqResolution;
+  const first = Math.max(0, Math.floor(binOf(minBpm)));
+  const last = Math.min(spectrum.length - 1, Math.ceil(binOf(maxBpm)));
+  if (last <= first) return null;
+
+  let peak = 0;
+  for (let k = first; k <= last; k++) peak = Math.max(peak, spectrum[k]);
+  const scale = peak > 0 ? peak : 1;
+
+  const x = (bpm: number) =>
+    PAD_L + ((bpm - minBpm) / (maxBpm - minBpm)) * PLOT_W;
+  const y = (v: number) => PAD_T + (1 - v / scale) * PLOT_H;
+
+  const linePts: string[] = [];
+  for (let k = first; k <= last; k++) {
+    const bpm = k * freqResolution * 60;
+    linePts.push(`${x(bpm).toFixed(1)},${y(spectrum[k]).toFixed(1)}`);
+  }
+
+  const ticks: number[] = [];
+  for (
+    let t = Math.ceil(minBpm / TICK_STEP_BPM) * TICK_STEP_BPM;
+    t <= maxBpm;
+    t += TICK_STEP_BPM
+  ) {
+    ticks.push(t);
+  }
+
+  return (
+    <View style={styles.plot}>
+      <Svg width="100%" height="100%" viewBox={`0 0 ${VB_W} ${VB_H}`}>
+        {ticks.map((t) => (
+          <SvgText
+            key={t}
+            x={x(t)}
+            y={VB_H - 6}
+            fontSize={10}
+            fill="#8a99b5"
+            textAnchor="middle"
+          >
+            {t}
+          </SvgText>
+        ))}
+
+        <Polyline
+          points={linePts.join(" ")}
+          fill="none"
+          stroke="#748cab"
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+
+        {peakBpm !== null && (
+          <>
+            <Line
+              x1={x(peakBpm)}
+              y1={PAD_T}
+              x2={x(peakBpm)}
+              y2={PAD_T + PLOT_H}
+              stroke="#920c0cff"
+              strokeWidth={1.5}
+              strokeDasharray="4 3"
+            />
+            <SvgText
+              x={x(peakBpm)}
+              y={PAD_T - 6}
+              fontSize={11}
+              fontWeight="700"
+              fill="#f0ebd8"
+              textAnchor="middle"
+            >
+              {Math.round(peakBpm)} BPM
+            </SvgText>
+          </>
+        )}
+      </Svg>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  plot: {
+    width: "100%",
+    aspectRatio: VB_W / VB_H,
+  },
+});
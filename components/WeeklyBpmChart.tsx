@@ -12,6 +12,9 @@ type Point = { day: string; avg: number; count: number };
 
 type Props = {
   data: Point[];
+  unit?: string;
+  /** Label under each point from its `day`; weekday names by default. */
+  xLabel?: (day: string) => string;
 };
 
 const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
@@ -30,7 +33,11 @@ function weekdayLabel(day: string): string {
   return WEEKDAYS[new Date(y, m - 1, d).getDay()];
 }
 
-export default function WeeklyBpmChart({ data }: Props) {
+export default function WeeklyBpmChart({
+  data,
+  unit = "BPM",
+  xLabel = weekdayLabel,
+}: Props) {
   if (data.length === 0) return null;
 
   const avgs = data.map((d) => d.avg);
@@ -65,7 +72,7 @@ export default function WeeklyBpmChart({ data }: Props) {
       <Text style={styles.summary}>
         Low <Text style={styles.summaryNum}>{dataMin}</Text> · Avg{" "}
         <Text style={styles.summaryNum}>{mean}</Text> · High{" "}
-        <Text style={styles.summaryNum}>{dataMax}</Text> BPM
+        <Text style={styles.summaryNum}>{dataMax}</Text> {unit}
       </Text>
 
       <View style={styles.plot}>
@@ -109,7 +116,7 @@ export default function WeeklyBpmChart({ data }: Props) {
           {pts.map((p, i) => {
             const isLast = i === pts.length - 1;
             return (
-              <React.Fragment key={p.day}>
+              <React.Fragment key={`${p.day}-${i}`}>
                 <Circle
                   cx={p.px}
                   cy={p.py}
@@ -135,7 +142,7 @@ export default function WeeklyBpmChart({ data }: Props) {
                   fill="#8a99b5"
                   textAnchor="middle"
                 >
-                  {weekdayLabel(p.day)}
+                  {xLabel(p.day)}
                 </SvgText>
               </React.Fragment>
             );
@@ -1,4 +1,18 @@
 import { supabase } from "@/lib/supabase";
+import { ProtocolKind, ProtocolResults } from "@/utils/guidedProtocol";
+import {
+  CaptureMode,
+  MinuteSummary,
+  SessionCapture,
+} from "@/utils/measurementSession";
+import { RhythmClass } from "@/utils/rhythm";
+import {
+  decodeFlags,
+  decodeSignal,
+  encodeFlags,
+  encodeSignal,
+  SIGNAL_ENCODING,
+} from "@/utils/signalEncoding";
 
 const getCurrentUser = async () => {
   const {
@@ -174,13 +188,16 @@ export const deleteAlarm = async (alarmId: number) => {
   return { data: null, error };
 };
 
+const MEASUREMENT_COLUMNS =
+  "id, created_at, heartRate, tag, rhythm, respiratoryRate, mode, durationMs, validReadings, meanQuality, methodAgreement, sampleRate, pauses, pausedMs, sessionId, stage, coherence, breathingRate, timeStamp, userId";
+
 export const fetchMeasurements = async () => {
   const userId = await getUserId();
   if (!userId) return { data: null, error: { message: "Not authenticated" } };
 
   const { data, error } = await supabase
     .from("Measurement")
-    .select("id, created_at, heartRate, tag, timeStamp, userId")
+    .select(MEASUREMENT_COLUMNS)
     .eq("userId", userId)
     .order("created_at", { ascending: false })
     .limit(300);
@@ -192,18 +209,76 @@ export const fetchMeasurements = async () => {
   return { data: (data as MeasurementRow[] | null) ?? null, error };
 };
 
+export const fetchMeasurement = async (measurementId: number) => {
+  const userId = await getUserId();
+  if (!userId) return { data: null, error: { message: "Not authenticated" } };
+
+  const { data, error } = await supabase
+    .from("Measurement")
+    .select(MEASUREMENT_COLUMNS)
+    .eq("id", measurementId)
+    .eq("userId", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching measurement:", error);
+  }
+
+  return { data: (data as MeasurementRow | null) ?? null, error };
+};
+
 export type MeasurementRow = {
   id: number;
   created_at: string;
   heartRate: number;
   tag?: string | null;
+  rhythm?: RhythmClass | null;
+  respiratoryRate?: number | null;
+  mode?: CaptureMode | null;
+  durationMs?: number | null;
+  validReadings?: number | null;
+  meanQuality?: number | null;
+  methodAgreement?: number | null;
+  sampleRate?: number | null;
+  pauses?: number | null;
+  pausedMs?: number | null;
+  sessionId?: number | null;
+  /** Protocol stage the reading was taken for, e.g. "recovery1". */
+  stage?: string | null;
+  /** Mean coherence score of a breathing session, 0–100. */
+  coherence?: number | null;
+  /** Pacer rate of a breathing session (breaths/min). */
+  breathingRate?: number | null;
   timeStamp: string;
   userId: number;
 };
 
+// Optional analysis results and capture metadata stored alongside the heart
+// rate
+export type MeasurementDetails = Partial<
+  Pick<
+    MeasurementRow,
+    | "rhythm"
+    | "respiratoryRate"
+    | "mode"
+    | "durationMs"
+    | "validReadings"
+    | "meanQuality"
+    | "methodAgreement"
+    | "sampleRate"
+    | "pauses"
+    | "pausedMs"
+    | "sessionId"
+    | "stage"
+    | "coherence"
+    | "breathingRate"
+  >
+>;
+
 export const addMeasurement = async (
   heartRate: number,
   tag: string | null = null,
+  details: MeasurementDetails = {},
 ) => {
   const userId = await getUserId();
   if (!userId) {
@@ -217,6 +292,7 @@ export const addMeasurement = async (
     userId: userId,
     heartRate: heartRate,
     tag,
+    ...details,
     timeStamp: timestamp,
     created_at: timestamp,
   };
@@ -233,6 +309,86 @@ export const addMeasurement = async (
   return { data, error };
 };
 
+/**
+ * Stores the recorded signal of a saved measurement in `MeasurementSignal`,
+ * one row per measurement, so it can be re-analysed and shown in detail.
+ */
+export const addMeasurementSignal = async (
+  measurementId: number,
+  capture: SessionCapture,
+) => {
+  const userId = await getUserId();
+  if (!userId) return { data: null, error: { message: "Not authenticated" } };
+
+  const red = encodeSignal(capture.red);
+  const filtered = encodeSignal(capture.filtered);
+
+  const { error } = await supabase.from("MeasurementSignal").insert({
+    measurementId,
+    userId,
+    sampleRate: capture.sampleRate,
+    encoding: SIGNAL_ENCODING,
+    raw: red.data,
+    rawScale: red.scale,
+    filtered: filtered.data,
+    filteredScale: filtered.scale,
+    artifacts: encodeFlags(capture.artifacts),
+    windows: capture.windows,
+    pauses: capture.pauses,
+  });
+
+  if (error) {
+    console.error("Error saving measurement signal:", error);
+  }
+
+  return { data: null, error };
+};
+
+export const fetchMeasurementSignal = async (
+  measurementId: number,
+): Promise<{ data: SessionCapture | null; error: any }> => {
+  const userId = await getUserId();
+  if (!userId) return { data: null, error: { message: "Not authenticated" } };
+
+  const { data, error } = await supabase
+    .from("MeasurementSignal")
+    .select(
+      "sampleRate, encoding, raw, rawScale, filtered, filteredScale, artifacts, windows, pauses",
+    )
+    .eq("measurementId", measurementId)
+    .eq("userId", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching measurement signal:", error);
+    return { data: null, error };
+  }
+  if (!data) return { data: null, error: null };
+  if (data.encoding !== SIGNAL_ENCODING) {
+    return {
+      data: null,
+      error: { message: `Unsupported signal encoding: ${data.encoding}` },
+    };
+  }
+
+  const filtered = decodeSignal({
+    scale: data.filteredScale,
+    data: data.filtered,
+  });
+  return {
+    data: {
+      sampleRate: data.sampleRate,
+      red: decodeSignal({ scale: data.rawScale, data: data.raw }),
+      filtered,
+      // Signals stored before the flags were kept count as clean throughout
+      artifacts: decodeFlags(data.artifacts ?? [], filtered.length),
+      windows: data.windows ?? [],
+      pauses: data.pauses ?? [],
+    },
+    error: null,
+  };
+};
+
 export const updateMeasurementTag = async (
   measurementId: number,
   tag: string | null,
@@ -386,6 +542,126 @@ export const getWeeklyHeartRateSeries = async () => {
   return { data: series, error: null };
 };
 
+// Daily average respiratory rate over the last week, from resting readings
+// (tagged "Rest" or untagged) that were long enough to estimate it.
+export const getWeeklyRespiratorySeries = async () => {
+  const userId = await getUserId();
+  if (!userId) return { data: null, error: { message: "Not authenticated" } };
+
+  const weekAgo = new Date();
+  weekAgo.setDate(weekAgo.getDate() - 7);
+
+  const { data, error } = await supabase
+    .from("Measurement")
+    .select("respiratoryRate, tag, created_at")
+    .eq("userId", userId)
+    .not("respiratoryRate", "is", null)
+    .gte("created_at", weekAgo.toISOString())
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching respiratory series:", error);
+    return { data: null, error };
+  }
+
+  const byDay: Record<string, number[]> = {};
+  for (const row of data ?? []) {
+    if (row.tag && row.tag !== "Rest") continue;
+    const day = new Date(row.created_at).toISOString().slice(0, 10);
+    byDay[day] = byDay[day] ?? [];
+    byDay[day].push(row.respiratoryRate);
+  }
+
+  const series = Object.keys(byDay)
+    .sort()
+    .map((day) => {
+      const values = byDay[day];
+      const avg = Math.round(values.reduce((a, b) => a + b, 0) / values.length);
+      return { day, avg, count: values.length };
+    });
+
+  return { data: series, error: null };
+};
+
+const PROTOCOL_SERIES_LENGTH = 10;
+
+export type ProtocolPoint = {
+  created_at: string;
+  results: ProtocolResults;
+};
+
+/** Results of the latest runs of a guided protocol, oldest first. */
+export const getProtocolSeries = async (protocol: ProtocolKind) => {
+  const userId = await getUserId();
+  if (!userId) return { data: null, error: { message: "Not authenticated" } };
+
+  const { data, error } = await supabase
+    .from("Session")
+    .select("created_at, results")
+    .eq("userId", userId)
+    .eq("protocol", protocol)
+    .order("created_at", { ascending: false })
+    .limit(PROTOCOL_SERIES_LENGTH);
+
+  if (error) {
+    console.error(`Error fetching ${protocol} series:`, error);
+    return { data: null, error };
+  }
+
+  const series: ProtocolPoint[] = (data ?? []).reverse().map((row) => ({
+    created_at: row.created_at,
+    results: row.results ?? {},
+  }));
+
+  return { data: series, error: null };
+};
+
+/**
+ * Removes what hangs off measurements about to be deleted: their stored
+ * signals and the sessions they belong to. A protocol's results stop holding
+ * once one of its readings is gone, so the whole session goes (and with it
+ * its Stats trend point) while its other readings stay as plain ones.
+ */
+const deleteLinkedRows = async (
+  userId: number,
+  measurements: { id: number; sessionId: number | null }[],
+) => {
+  if (measurements.length === 0) return { error: null };
+
+  const { error: signalError } = await supabase
+    .from("MeasurementSignal")
+    .delete()
+    .eq("userId", userId)
+    .in(
+      "measurementId",
+      measurements.map((m) => m.id),
+    );
+  if (signalError) return { error: signalError };
+
+  const sessionIds = [
+    ...new Set(
+      measurements
+        .map((m) => m.sessionId)
+        .filter((id): id is number => id !== null),
+    ),
+  ];
+  if (sessionIds.length === 0) return { error: null };
+
+  const { error: unlinkError } = await supabase
+    .from("Measurement")
+    .update({ sessionId: null })
+    .eq("userId", userId)
+    .in("sessionId", sessionIds);
+  if (unlinkError) return { error: unlinkError };
+
+  const { error } = await supabase
+    .from("Session")
+    .delete()
+    .eq("userId", userId)
+    .in("id", sessionIds);
+  return { error };
+};
+
 export const deleteMeasurement = async (measurementId: number) => {
   const userId = await getUserId();
   if (!userId) {
@@ -393,6 +669,22 @@ export const deleteMeasurement = async (measurementId: number) => {
     return { data: null, error: { message: "Not authenticated" } };
   }
 
+  const { data: linked, error: fetchError } = await supabase
+    .from("Measurement")
+    .select("id, sessionId")
+    .eq("id", measurementId)
+    .eq("userId", userId);
+  if (fetchError) {
+    console.error("Error deleting measurement:", fetchError);
+    return { data: null, error: fetchError };
+  }
+
+  const { error: linkedError } = await deleteLinkedRows(userId, linked ?? []);
+  if (linkedError) {
+    console.error("Error deleting measurement data:", linkedError);
+    return { data: null, error: linkedError };
+  }
+
   const { data, error } = await supabase
     .from("Measurement")
     .delete()
@@ -422,23 +714,124 @@ export const deleteMeasurements = async (range?: MeasurementDeleteRange) => {
   }
 
   try {
+    let selection = supabase
+      .from("Measurement")
+      .select("id, sessionId")
+      .eq("userId", userId);
     let query = supabase.from("Measurement").delete().eq("userId", userId);
 
     if (range) {
+      selection = selection
+        .gte("created_at", range.start.toISOString())
+        .lte("created_at", range.end.toISOString());
       query = query
         .gte("created_at", range.start.toISOString())
         .lte("created_at", range.end.toISOString());
     }
 
+    const { data: linked, error: fetchError } = await selection;
+    if (fetchError) {
+      console.error("Error deleting measurements:", fetchError);
+      return { error: fetchError };
+    }
+
+    const { error: linkedError } = await deleteLinkedRows(userId, linked ?? []);
+    if (linkedError) {
+      console.error("Error deleting measurement data:", linkedError);
+      return { error: linkedError };
+    }
+
     const { error } = await query;
     if (error) {
       console.error("Error deleting measurements:", error);
       return { error };
     }
 
+    // Clearing everything also drops sessions left without measurements
+    if (!range) {
+      const { error: sessionError } = await supabase
+        .from("Session")
+        .delete()
+        .eq("userId", userId);
+      if (sessionError) {
+        console.error("Error deleting sessions:", sessionError);
+        return { error: sessionError };
+      }
+    }
+
     return { error: null };
   } catch (error: any) {
     console.error("Exception deleting measurements:", error);
     return { error: { message: error?.message ?? "Unknown error" } };
   }
 };
+
+export type SessionRow = {
+  id: number;
+  created_at: string;
+  mode: CaptureMode;
+  durationMs: number;
+  minutes: MinuteSummary[];
+  /** Guided protocol the session ran; null for a single long recording. */
+  protocol: ProtocolKind | null;
+  results: ProtocolResults | null;
+  userId: number;
+};
+
+export type NewSession = Pick<SessionRow, "mode" | "durationMs" | "minutes"> &
+  Partial<Pick<SessionRow, "protocol" | "results">>;
+
+/**
+ * Creates a `Session` row for a long recording, holding its per-minute
+ * summaries, or for a guided protocol, holding its results. The measurements
+ * saved for it point back through `sessionId`.
+ */
+export const addSession = async ({
+  mode,
+  durationMs,
+  minutes,
+  protocol = null,
+  results = null,
+}: NewSession) => {
+  const userId = await getUserId();
+  if (!userId) return { data: null, error: { message: "Not authenticated" } };
+
+  const { data, error } = await supabase
+    .from("Session")
+    .insert({
+      userId,
+      mode,
+      durationMs,
+      minutes,
+      protocol,
+      results,
+      created_at: new Date().toISOString(),
+    })
+    .select();
+
+  if (error) {
+    console.error("Error saving session:", error);
+  }
+
+  return { data, error };
+};
+
+export const fetchSession = async (sessionId: number) => {
+  const userId = await getUserId();
+  if (!userId) return { data: null, error: { message: "Not authenticated" } };
+
+  const { data, error } = await supabase
+    .from("Session")
+    .select(
+      "id, created_at, mode, durationMs, minutes, protocol, results, userId",
+    )
+    .eq("id", sessionId)
+    .eq("userId", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching session:", error);
+  }
+
+  return { data: (data as SessionRow | null) ?? null, error };
+};
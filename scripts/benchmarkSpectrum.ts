@@ -0,0 +1,138 @@
+/**
+ * Compares the spectral paths used by the live analysis:
+ *  - legacy: the previous recursive, object-per-bin FFT (kept here as the
+ *    baseline only)
+ *  - batch: computePowerSpectrum on the cached typed-array FFT
+ *  - sliding: SlidingSpectrum updated once per sample, read once per window
+ *
+ * Run with `npm run benchmark:spectrum`.
+ */
+import { PerformanceObserver } from "node:perf_hooks";
+
+import {
+  computePowerSpectrum,
+  detrendSignal,
+  SlidingSpectrum,
+} from "@/utils/heartRateDetection";
+
+const FS = 30;
+const WINDOW = 180;
+const ITERATIONS = 2000;
+
+interface Complex {
+  re: number;
+  im: number;
+}
+
+function legacyFft(signal: number[]): Complex[] {
+  const n = Math.pow(2, Math.ceil(Math.log2(signal.length)));
+  const padded = [...signal, ...new Array(n - signal.length).fill(0)];
+  return legacyFftRecursive(padded.map((re) => ({ re, im: 0 })));
+}
+
+function legacyFftRecursive(x: Complex[]): Complex[] {
+  const n = x.length;
+  if (n <= 1) return x;
+  const even = legacyFftRecursive(x.filter((_, i) => i % 2 === 0));
+  const odd = legacyFftRecursive(x.filter((_, i) => i % 2 === 1));
+  const result: Complex[] = new Array(n);
+  for (let k = 0; k < n / 2; k++) {
+    const angle = (-2 * Math.PI * k) / n;
+    const t = {
+      re: Math.cos(angle) * odd[k].re - Math.sin(angle) * odd[k].im,
+      im: Math.cos(angle) * odd[k].im + Math.sin(angle) * odd[k].re,
+    };
+    result[k] = { re: even[k].re + t.re, im: even[k].im + t.im };
+    result[k + n / 2] = { re: even[k].re - t.re, im: even[k].im - t.im };
+  }
+  return result;
+}
+
+function legacyPowerSpectrum(signal: number[]): number[] {
+  const detrended = detrendSignal(signal);
+  const n = detrended.length;
+  const windowed = detrended.map(
+    (v, i) => v * 0.5 * (1 - Math.cos((2 * Math.PI * i) / (n - 1))),
+  );
+  const out = legacyFft(windowed);
+  return out
+    .slice(0, out.length / 2)
+    .map(({ re, im }) => Math.sqrt(re * re + im * im));
+}
+
+function syntheticSignal(length: number): number[] {
+  return Array.from(
+    { length },
+    (_, i) =>
+      Math.sin((2 * Math.PI * 1.2 * i) / FS) +
+      0.3 * Math.sin((2 * Math.PI * 2.4 * i) / FS) +
+      0.05 * (Math.random() - 0.5),
+  );
+}
+
+// Garbage-collection pauses are the allocation cost that matters on the JS
+// thread, so they are reported alongside the timings.
+async function measure(label: string, run: () => void) {
+  let gcCount = 0;
+  let gcMs = 0;
+  const observer = new PerformanceObserver((list) => {
+    for (const entry of list.getEntries()) {
+      gcCount++;
+      gcMs += entry.duration;
+    }
+  });
+  observer.observe({ entryTypes: ["gc"] });
+
+  const start = process.hrtime.bigint();
+  run();
+  const elapsed = Number(process.hrtime.bigint() - start) / 1e6;
+
+  // GC entries are delivered asynchronously
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  observer.disconnect();
+
+  console.log(
+    `${label.padEnd(24)} ${(elapsed / ITERATIONS).toFixed(4)} ms/window  ` +
+      `${gcCount} GCs (${gcMs.toFixed(1)} ms)`,
+  );
+}
+
+const signal = syntheticSignal(WINDOW + ITERATIONS);
+const windows = Array.from({ length: ITERATIONS }, (_, i) =>
+  signal.slice(i, i + WINDOW),
+);
+
+// Warm up the JIT and the FFT plan cache
+for (let i = 0; i < 50; i++) {
+  legacyPowerSpectrum(windows[i]);
+  computePowerSpectrum(windows[i], FS);
+}
+
+async function main() {
+  console.log(`window ${WINDOW} samples @ ${FS} Hz, ${ITERATIONS} windows\n`);
+
+  await measure("legacy recursive FFT", () => {
+    for (const w of windows) legacyPowerSpectrum(w);
+  });
+
+  await measure("typed-array FFT", () => {
+    for (const w of windows) computePowerSpectrum(w, FS);
+  });
+
+  const sliding = new SlidingSpectrum(WINDOW, FS);
+  for (let i = 0; i < WINDOW; i++) sliding.push(signal[i]);
+  await measure("sliding update + read", () => {
+    for (let i = 0; i < ITERATIONS; i++) {
+      sliding.push(signal[WINDOW + i]);
+      sliding.spectrum();
+    }
+  });
+
+  const updateOnly = new SlidingSpectrum(WINDOW, FS);
+  for (let i = 0; i < WINDOW; i++) updateOnly.push(signal[i]);
+  await measure("sliding update only", () => {
+    for (let i = 0; i < ITERATIONS; i++) updateOnly.push(signal[WINDOW + i]);
+  });
+}
+
+main();
@@ -0,0 +1,75 @@
+/**
+ * Writes a synthetic trace in the CSV format `replayTraces` reads, with the
+ * ground-truth instantaneous heart rate as the reference column.
+ *
+ * Usage:
+ *   npm run generate:trace -- [--bpm=72] [--duration=60] [--noise=0.1]
+ *     [--drop=0.05] [--motion=20:3:40] [--seed=1] > trace.csv
+ *
+ * `--motion=start:duration:amplitude` may be repeated. Any other numeric
+ * option of `generatePpg` can be passed by name, e.g. `--respirationRate=12`.
+ */
+import { generatePpg, SyntheticPpgOptions } from "@/utils/syntheticPpg";
+
+const ALIASES: Record<string, keyof SyntheticPpgOptions> = {
+  duration: "durationS",
+  drop: "frameDropRate",
+};
+
+function parseOptions(args: string[]): SyntheticPpgOptions {
+  const options: SyntheticPpgOptions = { durationS: 60, motionBursts: [] };
+  for (const arg of args) {
+    const match = /^--([A-Za-z]+)=(.+)$/.exec(arg);
+    if (!match) throw new Error(`unrecognised argument "${arg}"`);
+    const [, name, value] = match;
+
+    if (name === "motion") {
+      const [startS, durationS, amplitude] = value.split(":").map(Number);
+      if ([startS, durationS, amplitude].some((v) => !Number.isFinite(v))) {
+        throw new Error(`--motion expects start:duration:amplitude`);
+      }
+      options.motionBursts!.push({ startS, durationS, amplitude });
+      continue;
+    }
+
+    const key = ALIASES[name] ?? (name as keyof SyntheticPpgOptions);
+    const number = Number(value);
+    if (!Number.isFinite(number)) throw new Error(`--${name} must be numeric`);
+    (options as unknown as Record<string, number>)[key] = number;
+  }
+  return options;
+}
+
+function main() {
+  const { frames, beatTimesMs } = generatePpg(
+    parseOptions(process.argv.slice(2)),
+  );
+
+  const lines = ["timestamp,r,g,b,reference"];
+  let beat = 0;
+  for (const frame of frames) {
+    while (beat < beatTimesMs.length - 1 && beatTimesMs[beat] <= frame.timeMs) {
+      beat++;
+    }
+    // Reference: rate implied by the interval the frame falls in
+    const ibi = beat > 0 ? beatTimesMs[beat] - beatTimesMs[beat - 1] : null;
+    const reference = ibi && ibi > 0 ? (60_000 / ibi).toFixed(1) : "";
+    lines.push(
+      [
+        frame.timeMs.toFixed(1),
+        frame.red.toFixed(3),
+        frame.green.toFixed(3),
+        frame.blue.toFixed(3),
+        reference,
+      ].join(","),
+    );
+  }
+  process.stdout.write(lines.join("\n") + "\n");
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
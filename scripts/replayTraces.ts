@@ -0,0 +1,221 @@
+/**
+ * Replays recorded PPG traces through a `MeasurementSession`, frame by frame
+ * as the camera would deliver them, and scores the per-window estimates
+ * against a reference heart rate. Frames without a finger on the lens are not
+ * analysed, as in the app.
+ *
+ * Each CSV needs a header row with `timestamp` (ms), `r`, `g`, `b` and a
+ * reference column (default `reference`, BPM). The reference may be sparse,
+ * e.g. one Empatica value per minute: each window is compared with the latest
+ * reference at or before its end, and windows before the first reference are
+ * not scored.
+ *
+ * Usage:
+ *   npm run replay -- [--method=green|red|chrom|pos] [--reference=column]
+ *     trace1.csv [trace2.csv ...]
+ */
+import { readFileSync } from "node:fs";
+import { basename } from "node:path";
+
+import { MAX_BPM, MIN_BPM, PulseMethod } from "@/utils/heartRateDetection";
+import {
+  ANALYSIS_INTERVAL_MS,
+  MeasurementSession,
+  SAMPLING_RATE,
+  WINDOW_SIZE,
+} from "@/utils/measurementSession";
+import {
+  CELL_COUNT,
+  CELL_STRIDE,
+  SATURATION_LEVEL,
+} from "@/utils/regionOfInterest";
+
+const PULSE_METHODS: PulseMethod[] = ["green", "red", "chrom", "pos"];
+
+interface TraceRow {
+  timeMs: number;
+  r: number;
+  g: number;
+  b: number;
+  reference: number | null;
+}
+
+interface Pair {
+  estimate: number;
+  reference: number;
+}
+
+interface FileResult {
+  /** Windows analysed with a reference available. */
+  windows: number;
+  pairs: Pair[];
+}
+
+function parseTrace(path: string, referenceColumn: string): TraceRow[] {
+  const lines = readFileSync(path, "utf8")
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0);
+  if (lines.length < 2) throw new Error(`${path}: no data rows`);
+
+  const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
+  const column = (name: string) => {
+    const index = header.indexOf(name.toLowerCase());
+    if (index === -1) throw new Error(`${path}: missing column "${name}"`);
+    return index;
+  };
+  const t = column("timestamp");
+  const r = column("r");
+  const g = column("g");
+  const b = column("b");
+  const ref = column(referenceColumn);
+
+  return lines.slice(1).map((line, i) => {
+    const fields = line.split(",");
+    const row = {
+      timeMs: Number(fields[t]),
+      r: Number(fields[r]),
+      g: Number(fields[g]),
+      b: Number(fields[b]),
+    };
+    if (Object.values(row).some((v) => !Number.isFinite(v))) {
+      throw new Error(`${path}:${i + 2}: malformed row`);
+    }
+    const reference = fields[ref]?.trim() ? Number(fields[ref]) : null;
+    return { ...row, reference: Number.isFinite(reference) ? reference : null };
+  });
+}
+
+// A trace row holds whole-frame means, so every cell of the frame gets them
+function traceCells(row: TraceRow): number[] {
+  const clipped = row.r >= SATURATION_LEVEL ? 1 : 0;
+  const cells = new Array<number>(CELL_COUNT * CELL_STRIDE);
+  for (let o = 0; o < cells.length; o += CELL_STRIDE) {
+    cells[o] = row.r;
+    cells[o + 1] = row.g;
+    cells[o + 2] = row.b;
+    cells[o + 3] = clipped;
+  }
+  return cells;
+}
+
+function replay(rows: TraceRow[], method: PulseMethod): FileResult {
+  // Continuous mode has no end, so the whole trace is analysed
+  const session = new MeasurementSession({
+    mode: "continuous",
+    pulseMethod: method,
+  });
+  const result: FileResult = { windows: 0, pairs: [] };
+  let reference: number | null = null;
+
+  session.subscribe((event) => {
+    if (event.type !== "window" || reference === null) return;
+    result.windows++;
+    const { bpm } = event.window;
+    if (bpm >= MIN_BPM && bpm <= MAX_BPM) {
+      result.pairs.push({ estimate: bpm, reference });
+    }
+  });
+
+  for (const row of rows) {
+    if (row.reference !== null) reference = row.reference;
+    session.push(traceCells(row), row.timeMs);
+  }
+
+  return result;
+}
+
+function summarize(label: string, windows: number, pairs: Pair[]) {
+  const abstention = windows > 0 ? 1 - pairs.length / windows : 0;
+  const columns = [
+    label.padEnd(28),
+    String(windows).padStart(7),
+    `${(abstention * 100).toFixed(1)}%`.padStart(8),
+  ];
+
+  if (pairs.length === 0) {
+    console.log([...columns, "  no estimates"].join(""));
+    return;
+  }
+
+  const errors = pairs.map((p) => p.estimate - p.reference);
+  const n = errors.length;
+  const mae = errors.reduce((a, e) => a + Math.abs(e), 0) / n;
+  const rmse = Math.sqrt(errors.reduce((a, e) => a + e * e, 0) / n);
+  // Bland–Altman: mean difference and 95% limits of agreement
+  const bias = errors.reduce((a, e) => a + e, 0) / n;
+  const sd =
+    n > 1
+      ? Math.sqrt(errors.reduce((a, e) => a + (e - bias) ** 2, 0) / (n - 1))
+      : 0;
+  const limits = `[${(bias - 1.96 * sd).toFixed(1)}, ${(bias + 1.96 * sd).toFixed(1)}]`;
+
+  console.log(
+    [
+      ...columns,
+      mae.toFixed(2).padStart(8),
+      rmse.toFixed(2).padStart(8),
+      bias.toFixed(2).padStart(8),
+      limits.padStart(18),
+    ].join(""),
+  );
+}
+
+function main() {
+  let method: PulseMethod = "green";
+  let referenceColumn = "reference";
+  const files: string[] = [];
+
+  for (const arg of process.argv.slice(2)) {
+    if (arg.startsWith("--method=")) {
+      const value = arg.slice("--method=".length) as PulseMethod;
+      if (!PULSE_METHODS.includes(value)) {
+        throw new Error(`unknown method "${value}"`);
+      }
+      method = value;
+    } else if (arg.startsWith("--reference=")) {
+      referenceColumn = arg.slice("--reference=".length);
+    } else {
+      files.push(arg);
+    }
+  }
+  if (files.length === 0) {
+    throw new Error(
+      "usage: replayTraces [--method=...] [--reference=...] trace.csv ...",
+    );
+  }
+
+  console.log(
+    `method ${method}, ${WINDOW_SIZE / SAMPLING_RATE} s windows every ` +
+      `${ANALYSIS_INTERVAL_MS} ms\n`,
+  );
+  console.log(
+    "file".padEnd(28) +
+      "windows".padStart(7) +
+      "abstain".padStart(8) +
+      "MAE".padStart(8) +
+      "RMSE".padStart(8) +
+      "bias".padStart(8) +
+      "limits (95%)".padStart(18),
+  );
+
+  let totalWindows = 0;
+  const allPairs: Pair[] = [];
+  for (const file of files) {
+    const result = replay(parseTrace(file, referenceColumn), method);
+    summarize(basename(file), result.windows, result.pairs);
+    totalWindows += result.windows;
+    allPairs.push(...result.pairs);
+  }
+
+  if (files.length > 1) {
+    console.log();
+    summarize("overall", totalWindows, allPairs);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
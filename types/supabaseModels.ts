@@ -16,10 +16,76 @@ export interface Database {
           created_at: string;
           heartRate: number;
           tag: string | null;
+          rhythm: "regular" | "irregular" | "inconclusive" | null;
+          respiratoryRate: number | null;
+          mode:
+            | "standard"
+            | "minute"
+            | "custom"
+            | "continuous"
+            | "breathing"
+            | null;
+          durationMs: number | null;
+          validReadings: number | null;
+          meanQuality: number | null;
+          methodAgreement: number | null;
+          sampleRate: number | null;
+          pauses: number | null;
+          pausedMs: number | null;
+          sessionId: number | null;
+          stage: string | null;
+          coherence: number | null;
+          breathingRate: number | null;
           timeStamp: string;
           userId: number;
         };
       };
+      Session: {
+        Row: {
+          id: number;
+          created_at: string;
+          userId: number;
+          mode: "standard" | "minute" | "custom" | "continuous" | "breathing";
+          durationMs: number;
+          minutes: {
+            minute: number;
+            durationMs: number;
+            bpm: number;
+            validReadings: number;
+            meanQuality: number;
+          }[];
+          protocol: "recovery" | "orthostatic" | null;
+          results: Record<string, number | null> | null;
+        };
+      };
+      MeasurementSignal: {
+        Row: {
+          id: number;
+          created_at: string;
+          measurementId: number;
+          userId: number;
+          sampleRate: number;
+          encoding: string;
+          /** Red channel level, whichever channel the pulse came from. */
+          raw: string;
+          rawScale: number;
+          filtered: string;
+          filteredScale: number;
+          /** Flagged sample runs as start/end index pairs. */
+          artifacts: number[] | null;
+          windows: {
+            timeMs: number;
+            quality: number | null;
+            bpm: number;
+          }[];
+          pauses:
+            | {
+                atMs: number;
+                durationMs: number;
+              }[]
+            | null;
+        };
+      };
       Alarm: {
         Row: {
           id: number;
@@ -0,0 +1,347 @@
+import {
+  applyHannWindow,
+  assessSignalQuality,
+  ButterworthFilter,
+  calculateSNR,
+  combineBpmEstimates,
+  computePowerSpectrum,
+  detectBeats,
+  detrendSignal,
+  estimateBpm,
+  estimateBpmFromAutocorrelation,
+  estimateHeartRateFFT,
+  extractInterBeatIntervals,
+  fft,
+  MAX_METHOD_DISAGREEMENT,
+  mean,
+  median,
+  nextPowerOfTwo,
+  PulseExtractor,
+  PulseMethod,
+  QUALITY_WEIGHTS,
+  SlidingSpectrum,
+} from "@/utils/heartRateDetection";
+import { generatePpg, SyntheticPpgOptions } from "@/utils/syntheticPpg";
+
+const FS = 30;
+// Samples dropped while the bandpass filter settles
+const SETTLE = FS;
+
+// Filtered pulse signal and raw red level of a synthetic trace
+function pulseSignal(
+  options: Partial<SyntheticPpgOptions> = {},
+  method: PulseMethod = "red",
+) {
+  const { frames, beatTimesMs } = generatePpg({ durationS: 12, ...options });
+  const extractor = new PulseExtractor(method, FS);
+  const filtered = frames.map((f) => extractor.process(f.red, f.green, f.blue));
+  return {
+    signal: filtered.slice(SETTLE),
+    raw: frames.slice(SETTLE).map((f) => f.red),
+    beatTimesMs,
+  };
+}
+
+function sine(freqHz: number, length: number, amplitude = 1, phase = 0) {
+  return Array.from(
+    { length },
+    (_, i) => amplitude * Math.sin((2 * Math.PI * freqHz * i) / FS + phase),
+  );
+}
+
+describe("ButterworthFilter", () => {
+  it("passes the cardiac band and rejects DC and high frequencies", () => {
+    const rms = (freqHz: number) => {
+      const filter = new ButterworthFilter(FS);
+      const out = sine(freqHz, 600).map((x) => filter.process(x + 5));
+      const tail = out.slice(300);
+      return Math.sqrt(mean(tail.map((v) => v * v)));
+    };
+    expect(rms(1.2)).toBeGreaterThan(0.6);
+    expect(rms(0.05)).toBeLessThan(0.1);
+    expect(rms(12)).toBeLessThan(0.3);
+  });
+
+  it("starts over after reset", () => {
+    const filter = new ButterworthFilter(FS);
+    const first = [10, 0, 0].map((x) => filter.process(x));
+    filter.reset();
+    expect([10, 0, 0].map((x) => filter.process(x))).toEqual(first);
+  });
+});
+
+describe("PulseExtractor", () => {
+  it.each<PulseMethod>(["red", "green", "chrom", "pos"])(
+    "recovers the heart rate with %s",
+    (method) => {
+      const { signal } = pulseSignal({ bpm: 72 }, method);
+      expect(estimateBpm(signal, FS)).toBeGreaterThanOrEqual(70);
+      expect(estimateBpm(signal, FS)).toBeLessThanOrEqual(74);
+    },
+  );
+
+  it.each<PulseMethod>(["green", "chrom", "pos"])(
+    "puts %s beats where the red ones are",
+    (method) => {
+      const options = { bpm: 72, durationS: 30 };
+      const red = detectBeats(pulseSignal(options).signal, FS);
+      const beats = detectBeats(pulseSignal(options, method).signal, FS);
+      expect(Math.abs(beats.length - red.length)).toBeLessThanOrEqual(1);
+      const offsets = beats.map((b) =>
+        Math.min(...red.map((r) => Math.abs(r.timeMs - b.timeMs))),
+      );
+      expect(median(offsets)).toBeLessThan(60);
+    },
+  );
+
+  it("falls back to red when green and blue are dark", () => {
+    const extractor = new PulseExtractor("chrom", FS);
+    extractor.process(200, 2, 1);
+    expect(extractor.activeMethod).toBe("red");
+    extractor.reset();
+    extractor.process(200, 40, 20);
+    expect(extractor.activeMethod).toBe("chrom");
+  });
+});
+
+describe("detrendSignal", () => {
+  it("removes a linear trend", () => {
+    const ramp = Array.from({ length: 50 }, (_, i) => 3 + 0.5 * i);
+    for (const v of detrendSignal(ramp)) expect(Math.abs(v)).toBeLessThan(1e-9);
+  });
+
+  it("leaves short signals untouched", () => {
+    expect(detrendSignal([1, 2, 3])).toEqual([1, 2, 3]);
+  });
+});
+
+describe("applyHannWindow", () => {
+  it("tapers both ends to zero and keeps the middle", () => {
+    const windowed = applyHannWindow(new Array(9).fill(1));
+    expect(windowed[0]).toBeCloseTo(0);
+    expect(windowed[8]).toBeCloseTo(0);
+    expect(windowed[4]).toBeCloseTo(1);
+  });
+});
+
+describe("nextPowerOfTwo", () => {
+  it("rounds up to a power of two", () => {
+    expect(nextPowerOfTwo(0)).toBe(1);
+    expect(nextPowerOfTwo(180)).toBe(256);
+    expect(nextPowerOfTwo(256)).toBe(256);
+  });
+});
+
+describe("fft", () => {
+  it("matches a direct DFT", () => {
+    const n = 16;
+    const x = Array.from({ length: n }, (_, i) => Math.sin(i) + 0.3 * i);
+    const re = Float64Array.from(x);
+    const im = new Float64Array(n);
+    fft(re, im);
+    for (let k = 0; k < n; k++) {
+      let dr = 0;
+      let di = 0;
+      for (let t = 0; t < n; t++) {
+        dr += x[t] * Math.cos((-2 * Math.PI * k * t) / n);
+        di += x[t] * Math.sin((-2 * Math.PI * k * t) / n);
+      }
+      expect(re[k]).toBeCloseTo(dr, 9);
+      expect(im[k]).toBeCloseTo(di, 9);
+    }
+  });
+});
+
+describe("computePowerSpectrum", () => {
+  it("peaks at the tone frequency", () => {
+    const { powerSpectrum, freqResolution } = computePowerSpectrum(
+      sine(1.5, 180),
+      FS,
+    );
+    let peak = 0;
+    for (let k = 1; k < powerSpectrum.length; k++) {
+      if (powerSpectrum[k] > powerSpectrum[peak]) peak = k;
+    }
+    expect(Math.abs(peak * freqResolution - 1.5)).toBeLessThanOrEqual(
+      freqResolution,
+    );
+  });
+});
+
+describe("SlidingSpectrum", () => {
+  it("tracks the full spectrum inside the cardiac band", () => {
+    const { signal } = pulseSignal();
+    const window = signal.slice(-180);
+    const sliding = new SlidingSpectrum(180, FS);
+    for (const x of signal) sliding.push(x);
+    expect(sliding.ready).toBe(true);
+
+    const exact = computePowerSpectrum(window, FS);
+    const tracked = sliding.spectrum();
+    expect(tracked.freqResolution).toBe(exact.freqResolution);
+    expect(estimateHeartRateFFT(window, FS, tracked)).toBeCloseTo(
+      estimateHeartRateFFT(window, FS, exact),
+      0,
+    );
+  });
+
+  it("is not ready until a full window has been pushed", () => {
+    const sliding = new SlidingSpectrum(180, FS);
+    for (let i = 0; i < 179; i++) sliding.push(0);
+    expect(sliding.ready).toBe(false);
+    sliding.push(0);
+    sliding.reset();
+    expect(sliding.ready).toBe(false);
+  });
+});
+
+describe("estimateHeartRateFFT", () => {
+  it.each([50, 72, 120])("finds %i BPM in a synthetic trace", (bpm) => {
+    const { signal } = pulseSignal({ bpm, hrvSdMs: 5 });
+    expect(Math.abs(estimateHeartRateFFT(signal, FS) - bpm)).toBeLessThan(3);
+  });
+
+  it("rejects a second harmonic that outweighs the fundamental", () => {
+    // Fundamental at 1 Hz with a stronger 2 Hz harmonic
+    const signal = sine(1, 300).map((v, i) => v + 1.2 * sine(2, 300)[i]);
+    expect(Math.abs(estimateHeartRateFFT(signal, FS) - 60)).toBeLessThan(3);
+  });
+
+  it("abstains on noise and on short signals", () => {
+    expect(estimateHeartRateFFT(new Array(300).fill(0), FS)).toBe(0);
+    expect(estimateHeartRateFFT(sine(1, 20), FS)).toBe(0);
+  });
+});
+
+describe("estimateBpmFromAutocorrelation", () => {
+  it("finds the beat period", () => {
+    const { signal } = pulseSignal({ bpm: 90, hrvSdMs: 5 });
+    const bpm = estimateBpmFromAutocorrelation(signal, FS);
+    expect(Math.abs(bpm - 90)).toBeLessThan(4);
+  });
+
+  it("abstains on a flat signal", () => {
+    expect(estimateBpmFromAutocorrelation(new Array(300).fill(1), FS)).toBe(0);
+  });
+});
+
+describe("combineBpmEstimates", () => {
+  it("averages agreeing estimates", () => {
+    expect(combineBpmEstimates(70, 74)).toBe(72);
+  });
+
+  it("abstains when the methods disagree by MAX_METHOD_DISAGREEMENT", () => {
+    expect(combineBpmEstimates(70, 70 + MAX_METHOD_DISAGREEMENT)).toBe(0);
+    expect(combineBpmEstimates(70, 70 + MAX_METHOD_DISAGREEMENT - 1)).toBe(77);
+  });
+
+  it("uses the only estimate available", () => {
+    expect(combineBpmEstimates(0, 80)).toBe(80);
+    expect(combineBpmEstimates(80, 0)).toBe(80);
+    expect(combineBpmEstimates(0, 0)).toBe(0);
+  });
+});
+
+describe("estimateBpm", () => {
+  it("combines both methods on a clean trace", () => {
+    const { signal } = pulseSignal({ bpm: 66 });
+    expect(Math.abs(estimateBpm(signal, FS) - 66)).toBeLessThanOrEqual(2);
+  });
+
+  it("abstains on short signals", () => {
+    expect(estimateBpm(sine(1, 20), FS)).toBe(0);
+  });
+});
+
+describe("detectBeats", () => {
+  it("finds one beat per heartbeat", () => {
+    const { signal, beatTimesMs } = pulseSignal({ bpm: 75, durationS: 20 });
+    const beats = detectBeats(signal, FS);
+    const expected = beatTimesMs.filter(
+      (t) => t >= (SETTLE / FS) * 1000,
+    ).length;
+    expect(Math.abs(beats.length - expected)).toBeLessThanOrEqual(1);
+    for (const b of beats) expect(b.amplitude).toBeGreaterThan(0);
+  });
+
+  it("offsets beat times by startTimeMs", () => {
+    const { signal } = pulseSignal();
+    const beats = detectBeats(signal, FS, 1000);
+    expect(beats[0].timeMs).toBeCloseTo(1000 + (beats[0].index / FS) * 1000);
+  });
+});
+
+describe("extractInterBeatIntervals", () => {
+  const beatsAt = (times: number[]) =>
+    times.map((timeMs, index) => ({ index, timeMs, amplitude: 1 }));
+
+  it("keeps regular intervals", () => {
+    const { ibis, rejected } = extractInterBeatIntervals(
+      beatsAt([0, 800, 1600, 2400, 3200]),
+    );
+    expect(ibis).toEqual([800, 800, 800, 800]);
+    expect(rejected).toBe(0);
+  });
+
+  it("drops an ectopic pair and out-of-range intervals", () => {
+    const times = [0, 800, 1600, 2400, 2800, 4000, 4800, 5600, 6400, 8500];
+    const { ibis, rejected } = extractInterBeatIntervals(beatsAt(times));
+    expect(ibis).toEqual(new Array(6).fill(800));
+    expect(rejected).toBe(3);
+  });
+
+  it("keeps the irregularity when ectopic rejection is off", () => {
+    const times = [0, 800, 1600, 2000, 3200];
+    const { ibis } = extractInterBeatIntervals(beatsAt(times), false);
+    expect(ibis).toEqual([800, 800, 400, 1200]);
+  });
+});
+
+describe("assessSignalQuality", () => {
+  it("scores a clean trace above a noisy one", () => {
+    const clean = pulseSignal();
+    const noisy = pulseSignal({ noise: 3 });
+    const cleanQuality = assessSignalQuality(clean.signal, FS, clean.raw);
+    const noisyQuality = assessSignalQuality(noisy.signal, FS, noisy.raw);
+    expect(cleanQuality.score).toBeGreaterThan(noisyQuality.score);
+    expect(cleanQuality.snr).toBeGreaterThan(noisyQuality.snr);
+  });
+
+  it("weights the sub-scores into the total", () => {
+    const { signal, raw } = pulseSignal();
+    const q = assessSignalQuality(signal, FS, raw);
+    expect(q.score).toBeCloseTo(
+      100 *
+        (QUALITY_WEIGHTS.spectral * q.spectral +
+          QUALITY_WEIGHTS.snr * q.snr +
+          QUALITY_WEIGHTS.stability * q.stability),
+    );
+  });
+
+  it("scores short signals zero", () => {
+    expect(assessSignalQuality([1, 2], FS, [1, 2]).score).toBe(0);
+  });
+});
+
+describe("median and mean", () => {
+  it("handle odd, even and empty inputs", () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([])).toBe(0);
+    expect(mean([1, 2, 3, 4])).toBe(2.5);
+    expect(mean([])).toBe(0);
+  });
+});
+
+describe("calculateSNR", () => {
+  it("is higher for a slow wave than for white noise", () => {
+    const { signal } = pulseSignal();
+    const noise = generatePpg({
+      durationS: 10,
+      perfusion: 0,
+      noise: 5,
+    }).frames.map((f) => f.red);
+    expect(calculateSNR(signal)).toBeGreaterThan(calculateSNR(noise));
+    expect(calculateSNR([1])).toBe(0);
+  });
+});
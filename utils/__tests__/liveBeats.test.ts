@@ -0,0 +1,38 @@
+import { LiveBeatDetector } from "@/utils/liveBeats";
+
+const FS = 30;
+// 45 BPM leaves room for a bump past the refractory period
+const PERIOD = 40;
+
+function pulse(phase: number, at: number, amplitude: number, width: number) {
+  return amplitude * Math.exp(-Math.pow((phase - at) / width, 2));
+}
+
+// Camera-style signal: each beat is a trough. Past `noiseFromS` a smaller
+// bump rides on the wave between beats.
+function detect(durationS: number, noiseFromS: number) {
+  const detector = new LiveBeatDetector(FS);
+  const ibis: (number | null)[] = [];
+  for (let i = 0; i < durationS * FS; i++) {
+    const phase = i % PERIOD;
+    let value = pulse(phase, 10, 1, 2.5);
+    if (i >= noiseFromS * FS) value += pulse(phase, 36, 0.3, 1.5);
+    const beat = detector.process(-value, false);
+    if (beat) ibis.push(beat.ibiMs);
+  }
+  return ibis;
+}
+
+describe("LiveBeatDetector", () => {
+  it("reports one beat per pulse", () => {
+    const ibis = detect(30, Infinity);
+    expect(ibis).toHaveLength(20);
+    for (const ibi of ibis) expect(ibi).toBeCloseTo((PERIOD / FS) * 1000);
+  });
+
+  it("does not count noise riding on a clean pulse", () => {
+    const ibis = detect(30, 5);
+    expect(ibis).toHaveLength(20);
+    for (const ibi of ibis) expect(ibi).toBeCloseTo((PERIOD / FS) * 1000);
+  });
+});
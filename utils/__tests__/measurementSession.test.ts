@@ -0,0 +1,164 @@
+import {
+  MeasurementSession,
+  SessionEvent,
+  SessionOptions,
+} from "@/utils/measurementSession";
+import {
+  frameToCells,
+  generatePpg,
+  SyntheticFrame,
+  SyntheticPpgOptions,
+} from "@/utils/syntheticPpg";
+
+const FRAME_MS = 1000 / 30;
+// Room seen through the lens: no red cast, so no finger
+const AMBIENT = { red: 120, green: 110, blue: 100 };
+
+function ambient(durationS: number): SyntheticFrame[] {
+  const count = Math.round((durationS * 1000) / FRAME_MS);
+  return Array.from({ length: count }, (_, i) => ({
+    timeMs: i * FRAME_MS,
+    ...AMBIENT,
+  }));
+}
+
+function finger(options: Partial<SyntheticPpgOptions> = {}): SyntheticFrame[] {
+  return generatePpg({ durationS: 30, seed: 1, ...options }).frames;
+}
+
+// Plays the segments back to back on one clock
+function sequence(...segments: SyntheticFrame[][]): SyntheticFrame[] {
+  const frames: SyntheticFrame[] = [];
+  let offset = 0;
+  for (const segment of segments) {
+    for (const frame of segment) {
+      frames.push({ ...frame, timeMs: frame.timeMs + offset });
+    }
+    offset += segment.length * FRAME_MS;
+  }
+  return frames;
+}
+
+function run(frames: SyntheticFrame[], options: Partial<SessionOptions> = {}) {
+  const session = new MeasurementSession({
+    mode: "standard",
+    pulseMethod: "red",
+    ...options,
+  });
+  const events: SessionEvent[] = [];
+  session.subscribe((event) => events.push(event));
+  for (const frame of frames) session.push(frameToCells(frame), frame.timeMs);
+  return { session, events };
+}
+
+function ofType<T extends SessionEvent["type"]>(
+  events: SessionEvent[],
+  type: T,
+): Extract<SessionEvent, { type: T }>[] {
+  return events.filter(
+    (e): e is Extract<SessionEvent, { type: T }> => e.type === type,
+  );
+}
+
+describe("MeasurementSession", () => {
+  it("waits while the camera sees no finger", () => {
+    const { session, events } = run(ambient(5));
+    expect(session.phase).toBe("waiting");
+    expect(events).toHaveLength(0);
+  });
+
+  it("starts measuring once a finger covers the lens", () => {
+    const { session, events } = run(sequence(ambient(2), finger()));
+    expect(ofType(events, "fingerDetected")).toHaveLength(1);
+    expect(events[0].type).toBe("fingerDetected");
+    expect(session.phase).not.toBe("waiting");
+  });
+
+  it("completes a standard measurement near the true rate", () => {
+    const { session, events } = run(sequence(ambient(2), finger({ bpm: 72 })));
+    const completed = ofType(events, "completed");
+    expect(completed).toHaveLength(1);
+    expect(session.phase).toBe("completed");
+    expect(Math.abs(completed[0].bpm - 72)).toBeLessThanOrEqual(3);
+    expect(completed[0].summary.validReadings).toBeGreaterThanOrEqual(12);
+    expect(ofType(events, "reading").length).toBeGreaterThan(0);
+  });
+
+  it("completes a 1-minute measurement after a minute", () => {
+    const { events } = run(
+      sequence(ambient(2), finger({ durationS: 70, bpm: 64 })),
+      { mode: "minute" },
+    );
+    const [completed] = ofType(events, "completed");
+    expect(completed.summary.durationMs).toBeGreaterThanOrEqual(60_000);
+    expect(completed.summary.durationMs).toBeLessThan(62_000);
+    expect(Math.abs(completed.bpm - 64)).toBeLessThanOrEqual(3);
+    expect(completed.capture.filtered.length).toBe(
+      completed.capture.artifacts.length,
+    );
+  });
+
+  it("pauses on a short finger loss and resumes", () => {
+    const { events } = run(
+      sequence(
+        ambient(2),
+        finger({ durationS: 10 }),
+        ambient(3),
+        finger({ durationS: 20, seed: 2 }),
+      ),
+    );
+    expect(ofType(events, "paused")).toHaveLength(1);
+    expect(ofType(events, "resumed")).toHaveLength(1);
+    expect(ofType(events, "fingerLost")).toHaveLength(0);
+    expect(ofType(events, "completed")[0].summary.pauses).toBe(1);
+  });
+
+  it("starts over when the finger stays off too long", () => {
+    const { session, events } = run(
+      sequence(ambient(2), finger({ durationS: 5 }), ambient(5)),
+      { maxPauseMs: 2000 },
+    );
+    expect(ofType(events, "fingerLost")).toHaveLength(1);
+    expect(session.phase).toBe("waiting");
+  });
+
+  it("reports finger loss straight away when pausing is off", () => {
+    const { events } = run(
+      sequence(ambient(2), finger({ durationS: 5 }), ambient(3)),
+      { maxPauseMs: 0 },
+    );
+    expect(ofType(events, "paused")).toHaveLength(0);
+    expect(ofType(events, "fingerLost")).toHaveLength(1);
+  });
+
+  it("times out a standard measurement with no valid reading", () => {
+    // The finger never keeps still long enough for a clean window
+    const motionBursts = Array.from({ length: 30 }, (_, i) => ({
+      startS: 2 + i * 2,
+      durationS: 1,
+      amplitude: 20,
+    }));
+    const { session, events } = run(
+      sequence(ambient(2), finger({ durationS: 60, motionBursts })),
+    );
+    expect(ofType(events, "reading")).toHaveLength(0);
+    expect(ofType(events, "aborted")).toEqual([
+      { type: "aborted", reason: "timeout" },
+    ]);
+    expect(session.phase).toBe("aborted");
+    // Progress is reported every 100 ms, so the last one falls just short
+    const progress = ofType(events, "progress");
+    expect(progress[progress.length - 1].elapsedMs).toBeGreaterThan(44_800);
+  });
+
+  it("aborts without a result when stopped", () => {
+    const { session, events } = run(
+      sequence(ambient(2), finger({ durationS: 5 })),
+    );
+    session.stop();
+    expect(ofType(events, "aborted")).toEqual([
+      { type: "aborted", reason: "stopped" },
+    ]);
+    expect(ofType(events, "completed")).toHaveLength(0);
+  });
+});
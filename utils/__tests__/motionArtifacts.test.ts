@@ -0,0 +1,60 @@
+import { computeHrv } from "@/utils/hrv";
+import { extractCleanIntervals } from "@/utils/motionArtifacts";
+
+const FS = 30;
+
+// Beats every `ibiMs` from `fromMs`, at sample indices of a 30 Hz trace
+function beatsBetween(fromMs: number, toMs: number, ibiMs: number) {
+  const beats = [];
+  for (let t = fromMs; t <= toMs; t += ibiMs) {
+    beats.push({ index: (t / 1000) * FS, timeMs: t, amplitude: 1 });
+  }
+  return beats;
+}
+
+// Clean throughout except [fromS, toS)
+function maskWithGap(lengthS: number, fromS: number, toS: number) {
+  return Array.from(
+    { length: lengthS * FS },
+    (_, i) => i >= fromS * FS && i < toS * FS,
+  );
+}
+
+describe("extractCleanIntervals", () => {
+  it("marks where each run after a gap starts", () => {
+    const beats = [
+      ...beatsBetween(0, 20_000, 800),
+      ...beatsBetween(24_000, 44_000, 1000),
+    ];
+    const nn = extractCleanIntervals(beats, maskWithGap(45, 21, 23));
+    expect(nn.ibis).toEqual([
+      ...new Array(25).fill(800),
+      ...new Array(20).fill(1000),
+    ]);
+    expect(nn.runStarts).toEqual([25]);
+  });
+
+  it("leaves a clean recording as one run", () => {
+    const nn = extractCleanIntervals(
+      beatsBetween(0, 20_000, 800),
+      new Array(21 * FS).fill(false),
+    );
+    expect(nn.ibis).toHaveLength(25);
+    expect(nn.runStarts).toEqual([]);
+  });
+});
+
+describe("computeHrv", () => {
+  it("does not difference intervals across a run boundary", () => {
+    const beats = [
+      ...beatsBetween(0, 20_000, 800),
+      ...beatsBetween(24_000, 44_000, 1000),
+    ];
+    const nn = extractCleanIntervals(beats, maskWithGap(45, 21, 23));
+    const hrv = computeHrv(nn.ibis, nn.times, nn.runStarts)!;
+    expect(hrv.rmssd).toBe(0);
+    expect(hrv.pnn50).toBe(0);
+    // Joined, the 800 → 1000 step would count as a successive difference
+    expect(computeHrv(nn.ibis, nn.times)!.rmssd).toBeGreaterThan(0);
+  });
+});
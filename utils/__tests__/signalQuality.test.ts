@@ -0,0 +1,53 @@
+import { QualityBreakdown } from "@/utils/heartRateDetection";
+import { FrameCoverage } from "@/utils/regionOfInterest";
+import { diagnoseSignalQuality } from "@/utils/signalQuality";
+
+const CLEAN: QualityBreakdown = {
+  spectral: 0.5,
+  snr: 0.25,
+  stability: 1,
+  score: 50,
+};
+const COVERED: FrameCoverage = { saturation: 0, uncovered: 0, brightness: 180 };
+const DIM: FrameCoverage = { ...COVERED, brightness: 60 };
+
+function poor(subScores: Partial<QualityBreakdown>): QualityBreakdown {
+  return { ...CLEAN, score: 30, ...subScores };
+}
+
+describe("diagnoseSignalQuality", () => {
+  it("gives no advice on a good window, however the frame looks", () => {
+    expect(diagnoseSignalQuality(CLEAN, DIM, false).cause).toBeNull();
+    expect(
+      diagnoseSignalQuality(CLEAN, { ...COVERED, saturation: 0.5 }, true).cause,
+    ).toBeNull();
+  });
+
+  it("reports movement and a partly covered lens before any window", () => {
+    expect(diagnoseSignalQuality(null, COVERED, true).cause).toBe("motion");
+    expect(
+      diagnoseSignalQuality(null, { ...COVERED, uncovered: 0.5 }, false).cause,
+    ).toBe("partialCoverage");
+    expect(diagnoseSignalQuality(null, DIM, false).cause).toBeNull();
+  });
+
+  it("blames clipping on pressure once a window is poor", () => {
+    const clipped = { ...COVERED, saturation: 0.5 };
+    expect(diagnoseSignalQuality(poor({}), clipped, false).cause).toBe(
+      "pressure",
+    );
+  });
+
+  it("reads a drifting level as movement", () => {
+    expect(
+      diagnoseSignalQuality(poor({ stability: 0.2 }), COVERED, false).cause,
+    ).toBe("motion");
+  });
+
+  it("reports low light only for a weak pulse in a dim frame", () => {
+    const weak = poor({ snr: 0.05 });
+    expect(diagnoseSignalQuality(weak, DIM, false).cause).toBe("lowLight");
+    expect(diagnoseSignalQuality(weak, COVERED, false).cause).toBeNull();
+    expect(diagnoseSignalQuality(poor({}), DIM, false).cause).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+import * as Speech from "expo-speech";
+import { AccessibilityInfo, Platform } from "react-native";
+
+export interface AnnounceOptions {
+  /** Read prompts aloud with text-to-speech. */
+  voice: boolean;
+  /** A screen reader is running. */
+  screenReader: boolean;
+}
+
+/**
+ * Reads a measurement prompt out. With voice prompts on it is spoken and the
+ * screen reader is left alone, so the two never talk over each other;
+ * otherwise a running screen reader announces it. A message also shown in a
+ * live region is left to the region on Android, which reads those itself.
+ */
+export function announce(
+  message: string,
+  { voice, screenReader }: AnnounceOptions,
+  inLiveRegion = false,
+) {
+  if (voice) {
+    Speech.speak(message);
+  } else if (screenReader && (!inLiveRegion || Platform.OS !== "android")) {
+    AccessibilityInfo.announceForAccessibility(message);
+  }
+}
+
+/** Drops any prompt still being spoken or queued. */
+export function stopAnnouncements() {
+  Speech.stop();
+}
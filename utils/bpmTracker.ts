@@ -0,0 +1,146 @@
+import { MAX_BPM, MIN_BPM } from "@/utils/heartRateDetection";
+
+// Random-walk process noise (BPM² per second): how far the true heart rate
+// may plausibly drift between windows. ~3 BPM/√s covers a resting subject
+// standing up or a post-exercise recovery without chasing noise.
+const PROCESS_NOISE = 9;
+
+// Measurement SD (BPM) of one estimator at quality 100; it scales inversely
+// with quality, so a marginal window pulls the estimate far less.
+const BASE_MEASUREMENT_SD = 3;
+
+// Innovations beyond this many SDs are treated as outliers (3σ gate).
+const GATE_SIGMAS = 3;
+
+// Reading a candidate as its half or double (estimator on a harmonic) costs
+// this factor in measurement variance, so it only wins when clearly closer
+// and pulls the estimate less than a direct reading would.
+const HARMONIC_PENALTY = 4;
+
+// Consecutive windows in which no candidate fitted as given before the
+// tracker assumes it has lost lock and re-initialises on the latest
+// candidates (a real change faster than the process noise allows).
+const MAX_MISSED_UPDATES = 4;
+
+// Uncertainty band half-width in SDs (~95%).
+const BAND_SIGMAS = 1.96;
+
+export interface BpmEstimate {
+  bpm: number;
+  /** Half-width (BPM) of the ~95% band around `bpm`. */
+  uncertainty: number;
+}
+
+/**
+ * One-dimensional Kalman filter over heart rate. Each analysis window
+ * contributes the FFT and autocorrelation candidates as separate measurements
+ * whose noise follows the window's signal quality. Candidates are tested as
+ * given and as half/double (harmonic lock) and gated against the prediction,
+ * so a single estimator jumping to a harmonic is ignored instead of being
+ * averaged in. Replaces the weighted median of recent readings, which lagged
+ * and jumped on exactly those windows.
+ */
+export class BpmTracker {
+  private state: number | null = null;
+  private variance = 0;
+  private lastTimeMs = 0;
+  private missed = 0;
+
+  get estimate(): BpmEstimate | null {
+    if (this.state === null) return null;
+    return {
+      bpm: this.state,
+      uncertainty: BAND_SIGMAS * Math.sqrt(this.variance),
+    };
+  }
+
+  /**
+   * Feeds one window's candidates (0 = no estimate) with its quality (0–100).
+   * Returns the updated estimate, or null until the tracker has locked on.
+   */
+  update(
+    candidates: number[],
+    quality: number,
+    timeMs: number,
+  ): BpmEstimate | null {
+    const valid = candidates.filter((c) => c >= MIN_BPM && c <= MAX_BPM);
+    const measurementSd =
+      BASE_MEASUREMENT_SD / Math.max(Math.min(quality, 100) / 100, 0.1);
+    const r = measurementSd * measurementSd;
+
+    if (this.state === null) {
+      if (valid.length > 0) this.initialise(valid, r, timeMs);
+      return this.estimate;
+    }
+
+    const dt = Math.max(timeMs - this.lastTimeMs, 0) / 1000;
+    this.lastTimeMs = timeMs;
+    this.variance += PROCESS_NOISE * dt;
+
+    let direct = 0;
+    for (const candidate of valid) {
+      const measurement = this.bestHypothesis(candidate, r);
+      if (!measurement) continue;
+
+      const gain = this.variance / (this.variance + measurement.variance);
+      this.state += gain * (measurement.value - this.state);
+      this.variance *= 1 - gain;
+      if (measurement.value === candidate) direct++;
+    }
+
+    if (direct > 0) {
+      this.missed = 0;
+    } else if (valid.length > 0 && ++this.missed >= MAX_MISSED_UPDATES) {
+      this.initialise(valid, r, timeMs);
+    }
+
+    return this.estimate;
+  }
+
+  reset() {
+    this.state = null;
+    this.variance = 0;
+    this.lastTimeMs = 0;
+    this.missed = 0;
+  }
+
+  private initialise(valid: number[], r: number, timeMs: number) {
+    this.state = valid.reduce((a, b) => a + b, 0) / valid.length;
+    // One candidate alone, or two that disagree, start out less certain
+    const spread = Math.max(...valid) - Math.min(...valid);
+    this.variance = r / valid.length + spread * spread;
+    this.lastTimeMs = timeMs;
+    this.missed = 0;
+  }
+
+  /** Most likely gated-in reading of a candidate: as is, halved or doubled. */
+  private bestHypothesis(
+    candidate: number,
+    r: number,
+  ): { value: number; variance: number } | null {
+    if (this.state === null) return null;
+
+    let best: { value: number; variance: number } | null = null;
+    let bestCost = Infinity;
+    const hypotheses = [
+      { value: candidate, variance: r },
+      { value: candidate / 2, variance: r * HARMONIC_PENALTY },
+      { value: candidate * 2, variance: r * HARMONIC_PENALTY },
+    ];
+    for (const h of hypotheses) {
+      if (h.value < MIN_BPM || h.value > MAX_BPM) continue;
+      const innovation = h.value - this.state;
+      // Gate on the unpenalised variance so a harmonic is not given a
+      // wider acceptance window than the candidate itself
+      const gateScore = (innovation * innovation) / (this.variance + r);
+      if (gateScore > GATE_SIGMAS * GATE_SIGMAS) continue;
+      const s = this.variance + h.variance;
+      const cost = (innovation * innovation) / s + Math.log(s);
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = h;
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,82 @@
+import { lombScargle } from "@/utils/hrv";
+
+// Span of the interval series each score is computed from
+export const COHERENCE_WINDOW_MS = 64_000;
+// Fewer intervals than this cannot resolve a rhythm of a few cycles a minute
+const MIN_INTERVALS = 30;
+
+// The dominant rhythm is searched for where slow breathing drives the heart
+// rate (2.4–15.6 /min) and measured against all power up to 0.4 Hz.
+const PEAK_BAND: [number, number] = [0.04, 0.26];
+const TOTAL_BAND: [number, number] = [0.005, 0.4];
+const PEAK_HALF_WIDTH = 0.015;
+const FREQ_STEP = 0.005;
+
+// Heart rhythm within this of the pacer (breaths/min) counts as resonant
+const MAX_RESONANCE_OFFSET = 0.75;
+
+export interface Coherence {
+  /** Share of the HRV power in the dominant rhythm, 0–100. */
+  score: number;
+  /** Frequency of that rhythm, in cycles per minute. */
+  peakPerMinute: number;
+}
+
+/**
+ * Heart rhythm coherence of an inter-beat interval series: how much of its
+ * variability is one smooth oscillation. Breathing slowly and evenly makes
+ * the heart rate rise and fall with each breath, concentrating the power in
+ * a narrow peak at the breathing rate. Uses the last `COHERENCE_WINDOW_MS` of
+ * the series; null when it holds too few intervals.
+ */
+export function computeCoherence(
+  ibis: number[],
+  times: number[],
+): Coherence | null {
+  const from = times.findIndex(
+    (t) => t >= times[times.length - 1] - COHERENCE_WINDOW_MS,
+  );
+  if (from < 0 || ibis.length - from < MIN_INTERVALS) return null;
+
+  const timesSec = times.slice(from).map((t) => t / 1000);
+  const frequencies: number[] = [];
+  for (let f = TOTAL_BAND[0]; f <= TOTAL_BAND[1] + 1e-9; f += FREQ_STEP) {
+    frequencies.push(f);
+  }
+  const psd = lombScargle(ibis.slice(from), timesSec, frequencies);
+
+  let peak = -1;
+  for (let i = 0; i < frequencies.length; i++) {
+    const f = frequencies[i];
+    if (f < PEAK_BAND[0] || f > PEAK_BAND[1]) continue;
+    if (peak < 0 || psd[i] > psd[peak]) peak = i;
+  }
+
+  let peakPower = 0;
+  let totalPower = 0;
+  for (let i = 0; i < frequencies.length; i++) {
+    totalPower += psd[i];
+    if (
+      Math.abs(frequencies[i] - frequencies[peak]) <=
+      PEAK_HALF_WIDTH + 1e-9
+    ) {
+      peakPower += psd[i];
+    }
+  }
+  if (totalPower <= 0) return null;
+
+  return {
+    score: Math.round((peakPower / totalPower) * 100),
+    peakPerMinute: frequencies[peak] * 60,
+  };
+}
+
+/** Whether the heart rhythm follows the breathing pacer. */
+export function isResonant(
+  coherence: Coherence,
+  breathsPerMinute: number,
+): boolean {
+  return (
+    Math.abs(coherence.peakPerMinute - breathsPerMinute) <= MAX_RESONANCE_OFFSET
+  );
+}
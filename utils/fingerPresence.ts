@@ -0,0 +1,138 @@
+import { averageCells, measureCoverage } from "@/utils/regionOfInterest";
+
+// Frames seen before detection starts, to learn what the lens sees without a
+// finger (room light, a table, the torch reflecting off a surface).
+const CALIBRATION_MS = 1000;
+// Share of the lens that must look like lit tissue to acquire the finger,
+// and below which it counts as gone (hysteresis).
+const MIN_COVERED_TO_DETECT = 0.75;
+const MIN_COVERED_TO_KEEP = 0.5;
+// Red share of the frame, r / (r + g + b). Lit tissue sits around 0.7–0.8
+// whatever the torch strength or skin tone; ambient scenes around 0.35–0.5.
+const MIN_REDNESS = 0.6;
+// Required margin over the calibrated ambient redness, for red-lit rooms,
+// capped so the threshold stays reachable for tissue.
+const MIN_REDNESS_GAIN = 0.1;
+const MAX_REDNESS_THRESHOLD = 0.7;
+// A finger resting on the lens gives a near-static image. Mean relative
+// frame-to-frame change above this is a scene moving past the camera.
+const MAX_FLICKER = 0.02;
+const FLICKER_TIME_CONSTANT_MS = 300;
+// The frame must look like a finger for this long before it is accepted
+const CONFIRM_MS = 300;
+
+// Dips shorter than this (finger lifted or slipping for a moment) do not count
+// as losing the finger.
+export const FINGER_GRACE_MS = 1000;
+
+/**
+ * Decides whether a finger covers the camera from colour ratios rather than
+ * absolute levels, so weak torches, dark skin and bright rooms all work.
+ * Every cell is judged by its green/red ratio (see `measureCoverage`), which
+ * also rejects torch glare off a nearby surface: that clips red but keeps
+ * green high. The first second calibrates the ambient redness; after that a
+ * finger is acquired once enough of the lens looks like tissue, the frame is
+ * clearly redder than the ambient scene and the image is steady. Once
+ * acquired, steadiness is no longer required (movement is the motion
+ * detector's job), and short dips are bridged by a grace period.
+ */
+export class FingerPresenceDetector {
+  private calibrationStart: number | null = null;
+  private ambientRedness: number[] = [];
+  private minRedness = MIN_REDNESS;
+  private calibrated = false;
+
+  private flicker = 0;
+  private lastLuminance = 0;
+  private lastTime: number | null = null;
+
+  private present = false;
+  private contact = false;
+  private candidateSince: number | null = null;
+  private lastContact = -Infinity;
+
+  /** Feeds one frame of per-cell means; returns whether a finger is present. */
+  process(cells: number[], timeMs: number): boolean {
+    const { red, green, blue } = averageCells(cells);
+    const total = red + green + blue;
+    const redness = total > 0 ? red / total : 0;
+    const covered = 1 - measureCoverage(cells).uncovered;
+
+    const luminance = total / 3;
+    if (this.lastTime !== null && this.lastLuminance > 0) {
+      const change = Math.abs(luminance - this.lastLuminance);
+      const k = Math.min(
+        (timeMs - this.lastTime) / FLICKER_TIME_CONSTANT_MS,
+        1,
+      );
+      this.flicker += (change / this.lastLuminance - this.flicker) * k;
+    }
+    this.lastLuminance = luminance;
+    this.lastTime = timeMs;
+
+    if (!this.calibrated) {
+      this.calibrationStart ??= timeMs;
+      // A finger already on the lens is not ambient; the fixed minimum applies
+      if (covered < MIN_COVERED_TO_DETECT) this.ambientRedness.push(redness);
+      if (timeMs - this.calibrationStart < CALIBRATION_MS) return false;
+      this.finishCalibration();
+    }
+
+    this.contact =
+      redness >= this.minRedness &&
+      covered >= (this.present ? MIN_COVERED_TO_KEEP : MIN_COVERED_TO_DETECT);
+
+    if (this.present) {
+      if (this.contact) {
+        this.lastContact = timeMs;
+      } else if (timeMs - this.lastContact > FINGER_GRACE_MS) {
+        this.present = false;
+      }
+      return this.present;
+    }
+
+    if (this.contact && this.flicker < MAX_FLICKER) {
+      this.candidateSince ??= timeMs;
+      if (timeMs - this.candidateSince >= CONFIRM_MS) {
+        this.present = true;
+        this.lastContact = timeMs;
+        this.candidateSince = null;
+      }
+    } else {
+      this.candidateSince = null;
+    }
+    return this.present;
+  }
+
+  /** Whether the current frame itself shows the finger (false during a dip). */
+  get inContact(): boolean {
+    return this.contact;
+  }
+
+  reset() {
+    this.calibrationStart = null;
+    this.ambientRedness = [];
+    this.minRedness = MIN_REDNESS;
+    this.calibrated = false;
+    this.flicker = 0;
+    this.lastLuminance = 0;
+    this.lastTime = null;
+    this.present = false;
+    this.contact = false;
+    this.candidateSince = null;
+    this.lastContact = -Infinity;
+  }
+
+  private finishCalibration() {
+    this.calibrated = true;
+    if (this.ambientRedness.length === 0) return;
+    const ambient =
+      this.ambientRedness.reduce((a, b) => a + b, 0) /
+      this.ambientRedness.length;
+    this.minRedness = Math.min(
+      Math.max(MIN_REDNESS, ambient + MIN_REDNESS_GAIN),
+      MAX_REDNESS_THRESHOLD,
+    );
+    this.ambientRedness = [];
+  }
+}
@@ -0,0 +1,394 @@
+import { PulseMethod } from "@/utils/heartRateDetection";
+import {
+  MeasurementSession,
+  RecordingAnalysis,
+  SessionCapture,
+  SessionEvent,
+  SessionSummary,
+} from "@/utils/measurementSession";
+import {
+  heartRateAt,
+  StageClock,
+  thirtyFifteenRatio,
+} from "@/utils/orthostatic";
+
+export type ProtocolKind = "recovery" | "orthostatic";
+
+export interface ProtocolStage {
+  /** Stored with the stage's measurement; unique across protocols. */
+  key: string;
+  label: string;
+  /**
+   * When the stage's measurement starts, ms after the protocol started. A
+   * stage whose time has already passed starts as soon as the previous one
+   * ends.
+   */
+  startAtMs: number;
+  /** Recording length; a standard reading when omitted. */
+  durationMs?: number;
+  /** Shown while counting down to the stage. */
+  prompt: string;
+  /** Shown while the stage is measured. */
+  instruction?: string;
+  /** Tag saved with the stage's measurement. */
+  tag?: string;
+}
+
+/** Values derived from the stage readings, keyed by metric. */
+export type ProtocolResults = Record<string, number | null>;
+
+export interface ProtocolMetric {
+  key: string;
+  label: string;
+  /** Empty for ratios. */
+  unit: string;
+  decimals: number;
+}
+
+export interface ProtocolDefinition {
+  label: string;
+  description: string;
+  stages: ProtocolStage[];
+  metrics: ProtocolMetric[];
+  /** Metric charted over time in Stats. */
+  trendMetric: string;
+  /** Computes the metrics from the stage results, keyed by stage. */
+  evaluate: (stages: Partial<Record<string, StageResult>>) => ProtocolResults;
+}
+
+// A standard reading takes 10–15 s once the finger is down, so each
+// re-measurement starts this much ahead of its mark to land on it.
+const RECOVERY_LEAD_MS = 10_000;
+
+// Countdown updates are sent this often
+const COUNTDOWN_INTERVAL_MS = 250;
+
+// Standing is recorded a little past 3 minutes so the reading at the mark
+// averages windows centred on either side of it, allowing for the second or
+// so the finger takes to be picked up again after the prompt.
+const STANDING_DURATION_MS = 186_000;
+
+/** Difference of two readings; null when either is missing. */
+function difference(
+  from: number | null | undefined,
+  to: number | null | undefined,
+): number | null {
+  return from != null && to != null ? from - to : null;
+}
+
+// Maps a stage's window and beat times onto time since its prompt
+function stageClock(result: StageResult): StageClock {
+  return {
+    offsetMs: result.acquiredAfterMs,
+    pauses: result.capture?.pauses ?? [],
+  };
+}
+
+// Increase over the supine reading `timeMs` after the stand prompt
+function standingRise(
+  stages: Partial<Record<string, StageResult>>,
+  timeMs: number,
+): number | null {
+  const standing = stages.standing;
+  if (!standing?.capture) return null;
+  return difference(
+    heartRateAt(standing.capture.windows, timeMs, stageClock(standing)),
+    stages.supine?.bpm,
+  );
+}
+
+export const PROTOCOLS: Record<ProtocolKind, ProtocolDefinition> = {
+  recovery: {
+    label: "Recovery",
+    description:
+      "Peak reading right after exercise, then again at 1, 2 and 3 minutes",
+    stages: [
+      {
+        key: "peak",
+        label: "Peak",
+        startAtMs: 0,
+        prompt: "Stop exercising and place your finger",
+        tag: "High effort",
+      },
+      {
+        key: "recovery1",
+        label: "Recovery 1 min",
+        startAtMs: 60_000 - RECOVERY_LEAD_MS,
+        prompt: "Lift your finger and rest",
+      },
+      {
+        key: "recovery2",
+        label: "Recovery 2 min",
+        startAtMs: 120_000 - RECOVERY_LEAD_MS,
+        prompt: "Lift your finger and rest",
+      },
+      {
+        key: "recovery3",
+        label: "Recovery 3 min",
+        startAtMs: 180_000 - RECOVERY_LEAD_MS,
+        prompt: "Lift your finger and rest",
+      },
+    ],
+    metrics: [
+      { key: "hrr1", label: "HRR1", unit: "BPM", decimals: 0 },
+      { key: "hrr2", label: "HRR2", unit: "BPM", decimals: 0 },
+    ],
+    trendMetric: "hrr1",
+    // Drop from the peak reading
+    evaluate: ({ peak, recovery1, recovery2 }) => ({
+      hrr1: difference(peak?.bpm, recovery1?.bpm),
+      hrr2: difference(peak?.bpm, recovery2?.bpm),
+    }),
+  },
+  orthostatic: {
+    label: "Orthostatic",
+    description:
+      "2 minutes lying down, then 3 minutes after standing up, keeping your finger on the camera",
+    stages: [
+      {
+        key: "supine",
+        label: "Lying down",
+        startAtMs: 0,
+        durationMs: 120_000,
+        prompt: "Lie down and place your finger",
+        instruction: "Lie still and breathe normally",
+        tag: "Rest",
+      },
+      {
+        key: "standing",
+        label: "Standing",
+        startAtMs: 0,
+        durationMs: STANDING_DURATION_MS,
+        prompt: "Stand up",
+        instruction: "Stand up now and keep your finger on the camera",
+      },
+    ],
+    metrics: [
+      { key: "rise30s", label: "Rise at 30 s", unit: "BPM", decimals: 0 },
+      { key: "rise1", label: "Rise at 1 min", unit: "BPM", decimals: 0 },
+      { key: "rise3", label: "Rise at 3 min", unit: "BPM", decimals: 0 },
+      { key: "ratio3015", label: "30:15 ratio", unit: "", decimals: 2 },
+    ],
+    trendMetric: "rise1",
+    evaluate: (stages) => {
+      const standing = stages.standing;
+      const intervals = standing?.analysis?.intervals;
+      return {
+        rise30s: standingRise(stages, 30_000),
+        rise1: standingRise(stages, 60_000),
+        rise3: standingRise(stages, 180_000),
+        ratio3015:
+          standing && intervals
+            ? thirtyFifteenRatio(intervals, stageClock(standing))
+            : null,
+      };
+    },
+  },
+};
+
+/** A metric value with its unit, or "--" when missing. */
+export function formatMetric(
+  metric: ProtocolMetric,
+  value: number | null | undefined,
+  withUnit = true,
+): string {
+  if (value == null) return "--";
+  const text = value.toFixed(metric.decimals);
+  return withUnit && metric.unit ? `${text} ${metric.unit}` : text;
+}
+
+/** Display label of a stored stage key; the key itself if unknown. */
+export function stageLabel(key: string): string {
+  for (const definition of Object.values(PROTOCOLS)) {
+    const stage = definition.stages.find((s) => s.key === key);
+    if (stage) return stage.label;
+  }
+  return key;
+}
+
+export interface StageResult {
+  key: string;
+  /** Null when the stage produced no reading. */
+  bpm: number | null;
+  /** When the stage ended, ms after the protocol started. */
+  atMs: number;
+  /**
+   * From the stage's start to the finger being picked up, where its
+   * recording (and the clock of its windows and beats) begins.
+   */
+  acquiredAfterMs: number;
+  summary: SessionSummary | null;
+  analysis: RecordingAnalysis | null;
+  capture: SessionCapture | null;
+}
+
+export type ProtocolEvent =
+  /** The stage's measurement started and is waiting for the finger. */
+  | { type: "stage"; stage: number }
+  | { type: "countdown"; stage: number; remainingMs: number }
+  /** Event of the running stage measurement, other than its end. */
+  | { type: "session"; event: SessionEvent }
+  | { type: "stageCompleted"; stage: number; result: StageResult }
+  | {
+      type: "completed";
+      stages: StageResult[];
+      results: ProtocolResults;
+      durationMs: number;
+    }
+  | { type: "aborted" };
+
+export type ProtocolListener = (event: ProtocolEvent) => void;
+
+/**
+ * A timed series of measurements, e.g. a recovery test. Runs one
+ * `MeasurementSession` per stage and counts down between them, with the
+ * schedule taken from the frame timestamps like the sessions themselves. A
+ * stage that times out without a reading is recorded as missing and the
+ * protocol moves on; a stage running past the next one's start delays it.
+ */
+export class GuidedProtocol {
+  readonly kind: ProtocolKind;
+  readonly definition: ProtocolDefinition;
+  private pulseMethod: PulseMethod;
+  private listeners = new Set<ProtocolListener>();
+
+  private current: MeasurementSession | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private stageIndex = 0;
+  private results: StageResult[] = [];
+  private finished = false;
+
+  private startTime: number | null = null;
+  private stageStartTime = 0;
+  private acquiredAfterMs = 0;
+  private lastFrameTime = 0;
+  private lastCountdown = -Infinity;
+
+  constructor(kind: ProtocolKind, pulseMethod: PulseMethod) {
+    this.kind = kind;
+    this.definition = PROTOCOLS[kind];
+    this.pulseMethod = pulseMethod;
+  }
+
+  /** Index of the stage being measured or counted down to. */
+  get stage(): number {
+    return this.stageIndex;
+  }
+
+  /** The running stage measurement; null while counting down. */
+  get session(): MeasurementSession | null {
+    return this.current;
+  }
+
+  subscribe(listener: ProtocolListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  push(cells: number[], timeMs: number) {
+    if (this.finished) return;
+    this.startTime ??= timeMs;
+    this.lastFrameTime = timeMs;
+
+    if (!this.current) {
+      const { startAtMs } = this.definition.stages[this.stageIndex];
+      const remainingMs = this.startTime + startAtMs - timeMs;
+      if (remainingMs > 0) {
+        if (timeMs - this.lastCountdown >= COUNTDOWN_INTERVAL_MS) {
+          this.lastCountdown = timeMs;
+          this.emit({ type: "countdown", stage: this.stageIndex, remainingMs });
+        }
+        return;
+      }
+      this.startStage();
+    }
+    this.current!.push(cells, timeMs);
+  }
+
+  /** Abandons the protocol; readings already taken are discarded. */
+  stop() {
+    if (this.finished) return;
+    this.finished = true;
+    this.unsubscribe?.();
+    this.current?.stop();
+    this.current = null;
+    this.emit({ type: "aborted" });
+  }
+
+  private startStage() {
+    const { durationMs } = this.definition.stages[this.stageIndex];
+    const session = new MeasurementSession({
+      mode: durationMs !== undefined ? "custom" : "standard",
+      pulseMethod: this.pulseMethod,
+      durationMs,
+    });
+    this.unsubscribe = session.subscribe((event) =>
+      this.handleSessionEvent(event),
+    );
+    this.current = session;
+    this.stageStartTime = this.lastFrameTime;
+    this.acquiredAfterMs = 0;
+    this.emit({ type: "stage", stage: this.stageIndex });
+  }
+
+  private handleSessionEvent(event: SessionEvent) {
+    if (event.type === "completed") {
+      this.finishStage(event.bpm, event.summary, event.analysis, event.capture);
+    } else if (event.type === "aborted") {
+      // Only a timeout gets here; stopping unsubscribes first
+      this.finishStage(null, null, null, null);
+    } else {
+      // The recording restarts with every detection, after a lost finger too
+      if (event.type === "fingerDetected") {
+        this.acquiredAfterMs = Math.round(
+          this.lastFrameTime - this.stageStartTime,
+        );
+      }
+      this.emit({ type: "session", event });
+    }
+  }
+
+  private finishStage(
+    bpm: number | null,
+    summary: SessionSummary | null,
+    analysis: RecordingAnalysis | null,
+    capture: SessionCapture | null,
+  ) {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.current = null;
+
+    const { stages } = this.definition;
+    const result: StageResult = {
+      key: stages[this.stageIndex].key,
+      bpm,
+      atMs: Math.round(this.lastFrameTime - this.startTime!),
+      acquiredAfterMs: this.acquiredAfterMs,
+      summary,
+      analysis,
+      capture,
+    };
+    this.results.push(result);
+    this.emit({ type: "stageCompleted", stage: this.stageIndex, result });
+
+    this.stageIndex++;
+    this.lastCountdown = -Infinity;
+    if (this.stageIndex < stages.length) return;
+
+    this.finished = true;
+    const byKey: Record<string, StageResult> = {};
+    for (const r of this.results) byKey[r.key] = r;
+    this.emit({
+      type: "completed",
+      stages: this.results,
+      results: this.definition.evaluate(byKey),
+      durationMs: result.atMs,
+    });
+  }
+
+  private emit(event: ProtocolEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
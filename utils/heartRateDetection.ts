@@ -37,9 +37,133 @@ export class ButterworthFilter {
   }
 }
 
-export function detrendSignal(signal: number[]): number[] {
+// Pulse extraction from the per-frame RGB channel means.
+//   red   - red channel only (original path, and the fallback)
+//   green - green channel only; usually the strongest pulsatile component
+//   chrom - chrominance method, de Haan & Jeanne (2013)
+//   pos   - plane-orthogonal-to-skin method, Wang et al. (2017)
+export type PulseMethod = "red" | "green" | "chrom" | "pos";
+
+// Mean channel level below which green/blue carry no usable light (a strong
+// torch through a thick finger can leave only red); such sessions use red.
+const MIN_CHANNEL_LEVEL = 5;
+
+// Normalisation / alpha-tuning window of the chrominance methods, in seconds.
+const CHROMINANCE_WINDOW_S = 1.6;
+
+/**
+ * Streaming pulse extractor: takes one RGB sample per frame and returns one
+ * bandpass-filtered pulse sample, so it drops in where `ButterworthFilter`
+ * was used on the red channel alone. Every method keeps systole as a trough,
+ * as in the single-channel traces: the CHROM output is sign-flipped for
+ * that, while the POS projection already dips with the other channels.
+ */
+export class PulseExtractor {
+  readonly method: PulseMethod;
+  private resolved: PulseMethod | null = null;
+  private filter: ButterworthFilter;
+  private filterY: ButterworthFilter;
+  private windowSize: number;
+  private r: number[] = [];
+  private g: number[] = [];
+  private b: number[] = [];
+  private u: number[] = [];
+  private v: number[] = [];
+
+  constructor(method: PulseMethod, fs: number) {
+    this.method = method;
+    this.filter = new ButterworthFilter(fs);
+    this.filterY = new ButterworthFilter(fs);
+    this.windowSize = Math.round(CHROMINANCE_WINDOW_S * fs);
+  }
+
+  /** Method actually in use; falls back to red when green/blue are dark. */
+  get activeMethod(): PulseMethod {
+    return this.resolved ?? this.method;
+  }
+
+  process(red: number, green: number, blue: number): number {
+    if (this.resolved === null) {
+      const dark = Math.min(green, blue) < MIN_CHANNEL_LEVEL;
+      const needsChroma = this.method !== "red";
+      this.resolved = needsChroma && dark ? "red" : this.method;
+    }
+
+    switch (this.resolved) {
+      case "red":
+        return this.filter.process(red);
+      case "green":
+        return this.filter.process(green);
+      case "chrom":
+        return -this.processChrom(red, green, blue);
+      case "pos":
+        return this.processPos(red, green, blue);
+    }
+  }
+
+  reset() {
+    this.resolved = null;
+    this.filter.reset();
+    this.filterY.reset();
+    this.r = [];
+    this.g = [];
+    this.b = [];
+    this.u = [];
+    this.v = [];
+  }
+
+  private normalize(red: number, green: number, blue: number) {
+    pushWindow(this.r, red, this.windowSize);
+    pushWindow(this.g, green, this.windowSize);
+    pushWindow(this.b, blue, this.windowSize);
+    return {
+      rn: red / (mean(this.r) || 1),
+      gn: green / (mean(this.g) || 1),
+      bn: blue / (mean(this.b) || 1),
+    };
+  }
+
+  private processChrom(red: number, green: number, blue: number): number {
+    const { rn, gn, bn } = this.normalize(red, green, blue);
+    const x = this.filter.process(3 * rn - 2 * gn);
+    const y = this.filterY.process(1.5 * rn + gn - 1.5 * bn);
+    pushWindow(this.u, x, this.windowSize);
+    pushWindow(this.v, y, this.windowSize);
+    const sdY = standardDeviation(this.v);
+    const alpha = sdY > 1e-10 ? standardDeviation(this.u) / sdY : 0;
+    return x - alpha * y;
+  }
+
+  private processPos(red: number, green: number, blue: number): number {
+    const { rn, gn, bn } = this.normalize(red, green, blue);
+    const s1 = gn - bn;
+    const s2 = -2 * rn + gn + bn;
+    pushWindow(this.u, s1, this.windowSize);
+    pushWindow(this.v, s2, this.windowSize);
+    const sd2 = standardDeviation(this.v);
+    const alpha = sd2 > 1e-10 ? standardDeviation(this.u) / sd2 : 0;
+    return this.filter.process(s1 + alpha * s2);
+  }
+}
+
+function pushWindow(buffer: number[], value: number, size: number) {
+  buffer.push(value);
+  if (buffer.length > size) buffer.shift();
+}
+
+function standardDeviation(values: number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(
+    values.reduce((sum, v) => sum + Math.pow(v - avg, 2), 0) / values.length,
+  );
+}
+
+function linearTrend(signal: ArrayLike<number>): {
+  slope: number;
+  intercept: number;
+} | null {
   const n = signal.length;
-  if (n < 10) return signal;
+  if (n < 10) return null;
 
   let sumX = 0,
     sumY = 0,
@@ -54,11 +178,17 @@ export function detrendSignal(signal: number[]): number[] {
   }
 
   const denom = n * sumX2 - sumX * sumX;
-  if (Math.abs(denom) < 1e-10) return signal;
+  if (Math.abs(denom) < 1e-10) return null;
 
   const slope = (n * sumXY - sumX * sumY) / denom;
   const intercept = (sumY - slope * sumX) / n;
-  return signal.map((val, i) => val - (slope * i + intercept));
+  return { slope, intercept };
+}
+
+export function detrendSignal(signal: number[]): number[] {
+  const trend = linearTrend(signal);
+  if (!trend) return signal;
+  return signal.map((val, i) => val - (trend.slope * i + trend.intercept));
 }
 
 export function applyHannWindow(signal: number[]): number[] {
@@ -68,41 +198,106 @@ export function applyHannWindow(signal: number[]): number[] {
   );
 }
 
-interface Complex {
-  re: number;
-  im: number;
-}
-
-export function fft(signal: number[]): Complex[] {
-  const n = signal.length;
-  const n2 = Math.pow(2, Math.ceil(Math.log2(n)));
-  const padded = [...signal, ...new Array(n2 - n).fill(0)];
-  return fftRecursive(padded.map((re) => ({ re, im: 0 })));
+// Per-size FFT tables and work buffers, built on first use. The analysis
+// runs on the same window size over and over, so after the first call an
+// FFT allocates nothing.
+interface FftPlan {
+  cos: Float64Array;
+  sin: Float64Array;
+  reversed: Uint32Array;
+  re: Float64Array;
+  im: Float64Array;
 }
 
-function fftRecursive(x: Complex[]): Complex[] {
-  const n = x.length;
-  if (n <= 1) return x;
+const fftPlans = new Map<number, FftPlan>();
+const hannWindows = new Map<number, Float64Array>();
 
-  const even = fftRecursive(x.filter((_, i) => i % 2 === 0));
-  const odd = fftRecursive(x.filter((_, i) => i % 2 === 1));
-  const result: Complex[] = new Array(n);
+function getFftPlan(n: number): FftPlan {
+  let plan = fftPlans.get(n);
+  if (plan) return plan;
 
+  const cos = new Float64Array(n / 2);
+  const sin = new Float64Array(n / 2);
   for (let k = 0; k < n / 2; k++) {
-    const angle = (-2 * Math.PI * k) / n;
-    const wk = { re: Math.cos(angle), im: Math.sin(angle) };
-    const t = {
-      re: wk.re * odd[k].re - wk.im * odd[k].im,
-      im: wk.re * odd[k].im + wk.im * odd[k].re,
-    };
-    result[k] = { re: even[k].re + t.re, im: even[k].im + t.im };
-    result[k + n / 2] = { re: even[k].re - t.re, im: even[k].im - t.im };
+    cos[k] = Math.cos((-2 * Math.PI * k) / n);
+    sin[k] = Math.sin((-2 * Math.PI * k) / n);
+  }
+
+  const bits = Math.log2(n);
+  const reversed = new Uint32Array(n);
+  for (let i = 0; i < n; i++) {
+    let r = 0;
+    for (let b = 0; b < bits; b++) r |= ((i >> b) & 1) << (bits - 1 - b);
+    reversed[i] = r;
+  }
+
+  plan = {
+    cos,
+    sin,
+    reversed,
+    re: new Float64Array(n),
+    im: new Float64Array(n),
+  };
+  fftPlans.set(n, plan);
+  return plan;
+}
+
+function getHannWindow(n: number): Float64Array {
+  let w = hannWindows.get(n);
+  if (!w) {
+    w = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      w[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (n - 1)));
+    }
+    hannWindows.set(n, w);
   }
-  return result;
+  return w;
 }
 
-function getMagnitude(c: Complex): number {
-  return Math.sqrt(c.re * c.re + c.im * c.im);
+export function nextPowerOfTwo(n: number): number {
+  return Math.pow(2, Math.ceil(Math.log2(Math.max(n, 1))));
+}
+
+/**
+ * In-place iterative radix-2 FFT (decimation in time). `re` and `im` must
+ * share the same power-of-two length; twiddles and the bit-reversal
+ * permutation come from the cached plan for that length.
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  if (n <= 1) return;
+  const { cos, sin, reversed } = getFftPlan(n);
+
+  for (let i = 0; i < n; i++) {
+    const j = reversed[i];
+    if (j > i) {
+      let t = re[i];
+      re[i] = re[j];
+      re[j] = t;
+      t = im[i];
+      im[i] = im[j];
+      im[j] = t;
+    }
+  }
+
+  for (let size = 2; size <= n; size *= 2) {
+    const half = size / 2;
+    const step = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const wr = cos[k * step];
+        const wi = sin[k * step];
+        const a = start + k;
+        const b = a + half;
+        const tr = wr * re[b] - wi * im[b];
+        const ti = wr * im[b] + wi * re[b];
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
 }
 
 // Physiologically plausible heart-rate range — single source of truth shared
@@ -111,7 +306,7 @@ export const MIN_BPM = 40;
 export const MAX_BPM = 200;
 
 export interface PowerSpectrum {
-  powerSpectrum: number[];
+  powerSpectrum: Float64Array;
   freqResolution: number;
 }
 
@@ -124,14 +319,156 @@ export function computePowerSpectrum(
   signal: number[],
   fs: number,
 ): PowerSpectrum {
-  const detrended = detrendSignal(signal);
-  const windowed = applyHannWindow(detrended);
-  const fftResult = fft(windowed);
-  const n = fftResult.length;
-  const powerSpectrum = fftResult.slice(0, Math.floor(n / 2)).map(getMagnitude);
+  const length = signal.length;
+  const n = nextPowerOfTwo(length);
+  const { re, im } = getFftPlan(n);
+  const trend = linearTrend(signal) ?? { slope: 0, intercept: 0 };
+  const hann = getHannWindow(length);
+
+  re.fill(0);
+  im.fill(0);
+  for (let i = 0; i < length; i++) {
+    re[i] = (signal[i] - (trend.slope * i + trend.intercept)) * hann[i];
+  }
+  fft(re, im);
+
+  const powerSpectrum = new Float64Array(Math.floor(n / 2));
+  for (let k = 0; k < powerSpectrum.length; k++) {
+    powerSpectrum[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+  }
   return { powerSpectrum, freqResolution: fs / n };
 }
 
+// Sliding-spectrum drift is cleared by an exact recompute this often (in
+// multiples of the window length).
+const SLIDING_REFRESH_WINDOWS = 10;
+
+/**
+ * Incremental counterpart of `computePowerSpectrum` for a sliding window:
+ * each pushed sample updates only the cardiac-band bins (sliding DFT), so a
+ * spectrum is available after every sample for the cost of ~100 complex
+ * multiply-adds rather than a full FFT. It uses the same zero-padded bin grid
+ * and symmetric Hann window, applied in the frequency domain by tracking each
+ * bin at its centre and ± one window-cosine frequency. The linear detrend is
+ * skipped, which is harmless on an already bandpass-filtered signal. Bins
+ * outside the band are left at zero.
+ */
+export class SlidingSpectrum {
+  readonly freqResolution: number;
+  private length: number;
+  private nfft: number;
+  private minBin: number;
+  private binCount: number;
+  private buffer: Float64Array;
+  private head = 0;
+  private pushed = 0;
+  // Three tracked frequencies per bin: centre, −Δ and +Δ (Hann side terms)
+  private omega: Float64Array;
+  private rotCos: Float64Array;
+  private rotSin: Float64Array;
+  private tailCos: Float64Array;
+  private tailSin: Float64Array;
+  private re: Float64Array;
+  private im: Float64Array;
+
+  constructor(length: number, fs: number) {
+    this.length = length;
+    this.nfft = nextPowerOfTwo(length);
+    this.freqResolution = fs / this.nfft;
+    this.buffer = new Float64Array(length);
+
+    this.minBin = Math.max(0, Math.floor(0.6 / this.freqResolution) - 1);
+    const maxBin = Math.min(
+      this.nfft / 2 - 1,
+      Math.ceil(3.8 / this.freqResolution) + 1,
+    );
+    this.binCount = maxBin - this.minBin + 1;
+
+    const delta = (2 * Math.PI) / (length - 1);
+    const size = this.binCount * 3;
+    this.omega = new Float64Array(size);
+    this.rotCos = new Float64Array(size);
+    this.rotSin = new Float64Array(size);
+    this.tailCos = new Float64Array(size);
+    this.tailSin = new Float64Array(size);
+    this.re = new Float64Array(size);
+    this.im = new Float64Array(size);
+    for (let b = 0; b < this.binCount; b++) {
+      const centre = (2 * Math.PI * (this.minBin + b)) / this.nfft;
+      this.omega[3 * b] = centre;
+      this.omega[3 * b + 1] = centre - delta;
+      this.omega[3 * b + 2] = centre + delta;
+    }
+    for (let j = 0; j < size; j++) {
+      const w = this.omega[j];
+      this.rotCos[j] = Math.cos(w);
+      this.rotSin[j] = Math.sin(w);
+      this.tailCos[j] = Math.cos(-w * (length - 1));
+      this.tailSin[j] = Math.sin(-w * (length - 1));
+    }
+  }
+
+  /** True once a full window of samples has been pushed. */
+  get ready(): boolean {
+    return this.pushed >= this.length;
+  }
+
+  push(x: number) {
+    const old = this.buffer[this.head];
+    this.buffer[this.head] = x;
+    this.head = (this.head + 1) % this.length;
+    this.pushed++;
+
+    if (this.pushed % (this.length * SLIDING_REFRESH_WINDOWS) === 0) {
+      this.recompute();
+      return;
+    }
+
+    // X' = e^{jω}·(X − x_old) + x_new·e^{−jω(L−1)}
+    for (let j = 0; j < this.re.length; j++) {
+      const r = this.re[j] - old;
+      const i = this.im[j];
+      this.re[j] =
+        r * this.rotCos[j] - i * this.rotSin[j] + x * this.tailCos[j];
+      this.im[j] =
+        r * this.rotSin[j] + i * this.rotCos[j] + x * this.tailSin[j];
+    }
+  }
+
+  spectrum(): PowerSpectrum {
+    const powerSpectrum = new Float64Array(this.nfft / 2);
+    for (let b = 0; b < this.binCount; b++) {
+      const j = 3 * b;
+      const re = 0.5 * this.re[j] - 0.25 * (this.re[j + 1] + this.re[j + 2]);
+      const im = 0.5 * this.im[j] - 0.25 * (this.im[j + 1] + this.im[j + 2]);
+      powerSpectrum[this.minBin + b] = Math.sqrt(re * re + im * im);
+    }
+    return { powerSpectrum, freqResolution: this.freqResolution };
+  }
+
+  reset() {
+    this.buffer.fill(0);
+    this.re.fill(0);
+    this.im.fill(0);
+    this.head = 0;
+    this.pushed = 0;
+  }
+
+  private recompute() {
+    for (let j = 0; j < this.re.length; j++) {
+      let re = 0;
+      let im = 0;
+      for (let n = 0; n < this.length; n++) {
+        const x = this.buffer[(this.head + n) % this.length];
+        re += x * Math.cos(-this.omega[j] * n);
+        im += x * Math.sin(-this.omega[j] * n);
+      }
+      this.re[j] = re;
+      this.im[j] = im;
+    }
+  }
+}
+
 export function estimateHeartRateFFT(
   signal: number[],
   fs: number,
@@ -181,7 +518,7 @@ export function estimateHeartRateFFT(
  * the fractional index of the true maximum. Works on any signal array.
  * At 30 fps this reduces peak-timing error from ±33 ms to ±1–3 ms.
  */
-function refinePeak(signal: number[], peakIndex: number): number {
+function refinePeak(signal: ArrayLike<number>, peakIndex: number): number {
   if (peakIndex <= 0 || peakIndex >= signal.length - 1) return peakIndex;
 
   const y1 = signal[peakIndex - 1];
@@ -196,6 +533,139 @@ function refinePeak(signal: number[], peakIndex: number): number {
   return peakIndex + Math.max(-0.5, Math.min(0.5, offset));
 }
 
+// Beat-to-beat detection. Transmitted light drops as blood volume rises, so
+// the systolic peak shows up as a trough in the camera signal.
+
+export interface Beat {
+  /** Fractional sample index of the systolic peak (after refinement). */
+  index: number;
+  /** Peak time in ms, relative to `startTimeMs`. */
+  timeMs: number;
+  /** Pulse amplitude at the peak, in filtered-signal units. */
+  amplitude: number;
+}
+
+export interface InterBeatIntervals {
+  /** Accepted inter-beat intervals in ms. */
+  ibis: number[];
+  /** Time (ms) of the beat closing each accepted interval. */
+  times: number[];
+  /** Number of intervals dropped as ectopic or out of range. */
+  rejected: number;
+  /**
+   * Indices into `ibis` where a new run of beats starts after a masked gap.
+   * An interval there does not follow on from the one before it, so the two
+   * must not be differenced.
+   */
+  runStarts: number[];
+}
+
+/** Whether `ibis[i]` and `ibis[i - 1]` are consecutive intervals. */
+export function isSuccessive(i: number, runStarts: number[]): boolean {
+  return i > 0 && !runStarts.includes(i);
+}
+
+// A candidate peak must reach this fraction of the median peak amplitude;
+// smaller bumps are dicrotic notches or noise riding on the wave.
+const MIN_PEAK_PROMINENCE = 0.35;
+
+// An interval deviating from the local median by more than this fraction is
+// treated as ectopic or a missed/extra beat (Malik-style 20% rule).
+const MAX_IBI_DEVIATION = 0.2;
+
+/**
+ * Systolic peak detector. Finds local maxima of the inverted, detrended signal
+ * separated by at least one MAX_BPM period, drops low-amplitude candidates and
+ * refines each peak with `refinePeak` so beat timing is sub-sample accurate.
+ */
+export function detectBeats(
+  signal: number[],
+  fs: number,
+  startTimeMs = 0,
+): Beat[] {
+  if (signal.length < 30) return [];
+
+  const inverted = detrendSignal(signal).map((v) => -v);
+  const minDistance = Math.floor((fs * 60) / MAX_BPM);
+
+  const candidates: number[] = [];
+  for (let i = 1; i < inverted.length - 1; i++) {
+    const v = inverted[i];
+    if (v <= 0 || v < inverted[i - 1] || v < inverted[i + 1]) continue;
+
+    const last = candidates[candidates.length - 1];
+    if (last !== undefined && i - last < minDistance) {
+      // Within the refractory period: keep whichever peak is taller.
+      if (v > inverted[last]) candidates[candidates.length - 1] = i;
+      continue;
+    }
+    candidates.push(i);
+  }
+  if (candidates.length === 0) return [];
+
+  const threshold =
+    median(candidates.map((i) => inverted[i])) * MIN_PEAK_PROMINENCE;
+
+  return candidates
+    .filter((i) => inverted[i] >= threshold)
+    .map((i) => {
+      const index = refinePeak(inverted, i);
+      return {
+        index,
+        timeMs: startTimeMs + (index / fs) * 1000,
+        amplitude: inverted[i],
+      };
+    });
+}
+
+/**
+ * Inter-beat intervals from consecutive beats, with physiological range and
+ * ectopic rejection. Each interval is compared to the median of its
+ * neighbours, so a single premature beat (short + long pair) drops out
+ * without dragging the rest of the series with it.
+ * Pass `rejectEctopic = false` when the irregularity itself is of interest
+ * (rhythm screening); only the range check is applied then.
+ */
+export function extractInterBeatIntervals(
+  beats: Beat[],
+  rejectEctopic = true,
+): InterBeatIntervals {
+  const minIbi = 60_000 / MAX_BPM;
+  const maxIbi = 60_000 / MIN_BPM;
+
+  const raw: { ibi: number; time: number }[] = [];
+  let rejected = 0;
+  for (let i = 1; i < beats.length; i++) {
+    const ibi = beats[i].timeMs - beats[i - 1].timeMs;
+    if (ibi < minIbi || ibi > maxIbi) {
+      rejected++;
+      continue;
+    }
+    raw.push({ ibi, time: beats[i].timeMs });
+  }
+
+  const ibis: number[] = [];
+  const times: number[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const neighbours = raw
+      .slice(Math.max(0, i - 2), i + 3)
+      .filter((_, j) => j !== Math.min(i, 2))
+      .map((r) => r.ibi);
+    const reference = neighbours.length > 0 ? median(neighbours) : raw[i].ibi;
+    if (
+      rejectEctopic &&
+      Math.abs(raw[i].ibi - reference) > reference * MAX_IBI_DEVIATION
+    ) {
+      rejected++;
+      continue;
+    }
+    ibis.push(raw[i].ibi);
+    times.push(raw[i].time);
+  }
+
+  return { ibis, times, rejected, runStarts: [] };
+}
+
 export function estimateBpmFromAutocorrelation(
   signal: number[],
   fs: number,
@@ -246,7 +716,7 @@ export function estimateBpmFromAutocorrelation(
 
 // Methods disagreeing by more than this (BPM) means one likely locked onto a
 // harmonic, so we abstain instead of averaging two inconsistent values.
-const MAX_METHOD_DISAGREEMENT = 15;
+export const MAX_METHOD_DISAGREEMENT = 15;
 
 /**
  * Combined estimate from FFT + autocorrelation. Returns 0 when there is no
@@ -261,7 +731,14 @@ export function estimateBpm(
 
   const fftBpm = estimateHeartRateFFT(signal, fs, spectrum);
   const autocorrBpm = estimateBpmFromAutocorrelation(signal, fs);
+  return combineBpmEstimates(fftBpm, autocorrBpm);
+}
 
+/** The `estimateBpm` rule, for callers that also need the two candidates. */
+export function combineBpmEstimates(
+  fftBpm: number,
+  autocorrBpm: number,
+): number {
   if (fftBpm === 0 && autocorrBpm === 0) return 0;
   if (fftBpm === 0) return autocorrBpm;
   if (autocorrBpm === 0) return fftBpm;
@@ -271,13 +748,35 @@ export function estimateBpm(
   return Math.round((fftBpm + autocorrBpm) / 2);
 }
 
-export function calculateSignalQuality(
+// Weights of the spectral-purity, SNR and stability sub-scores
+export const QUALITY_WEIGHTS = {
+  spectral: 0.5,
+  snr: 0.3,
+  stability: 0.2,
+};
+
+export interface QualityBreakdown {
+  /** Sub-scores in 0–1. */
+  spectral: number;
+  snr: number;
+  stability: number;
+  /** Weighted total, 0–100. */
+  score: number;
+}
+
+/**
+ * Signal quality from spectral purity (share of cardiac-band power in the
+ * peak), SNR of the filtered signal and stability of the raw level, each
+ * kept separately so callers can tell which one is letting the signal down.
+ */
+export function assessSignalQuality(
   signal: number[],
   fs: number,
   rawSignal: number[],
   spectrum?: PowerSpectrum,
-): number {
-  if (signal.length < 30) return 0;
+): QualityBreakdown {
+  if (signal.length < 30)
+    return { spectral: 0, snr: 0, stability: 0, score: 0 };
 
   const { powerSpectrum, freqResolution } =
     spectrum ?? computePowerSpectrum(signal, fs);
@@ -300,9 +799,16 @@ export function calculateSignalQuality(
   const stabilityScore =
     cv > 0.01 && cv < 0.5 ? 1 : Math.exp(-Math.abs(cv - 0.1) / 0.2);
 
-  const weights = [0.5, 0.3, 0.2];
-  const scores = [spectralScore, snrScore, stabilityScore];
-  return weights.reduce((sum, w, i) => sum + w * scores[i], 0) * 100;
+  return {
+    spectral: spectralScore,
+    snr: snrScore,
+    stability: stabilityScore,
+    score:
+      (QUALITY_WEIGHTS.spectral * spectralScore +
+        QUALITY_WEIGHTS.snr * snrScore +
+        QUALITY_WEIGHTS.stability * stabilityScore) *
+      100,
+  };
 }
 
 export function median(values: number[]): number {
@@ -324,16 +830,6 @@ export function mean(values: number[]): number {
   return values.reduce((a, b) => a + b, 0) / values.length;
 }
 
-export function weightedMedian(values: number[]): number {
-  if (values.length === 0) return 0;
-  const weighted: number[] = [];
-  for (let i = 0; i < values.length; i++) {
-    const weight = i + 1;
-    for (let w = 0; w < weight; w++) weighted.push(values[i]);
-  }
-  return median(weighted);
-}
-
 export function calculateSNR(signal: number[]): number {
   if (signal.length < 2) return 0;
   const mean = signal.reduce((a, b) => a + b, 0) / signal.length;
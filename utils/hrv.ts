@@ -0,0 +1,145 @@
+import { isSuccessive, mean } from "@/utils/heartRateDetection";
+
+export interface HrvMetrics {
+  /** Mean NN interval (ms). */
+  meanNN: number;
+  /** Standard deviation of NN intervals (ms). */
+  sdnn: number;
+  /** Root mean square of successive differences (ms). */
+  rmssd: number;
+  /** Percentage of successive differences larger than 50 ms. */
+  pnn50: number;
+  /** Low-frequency power, 0.04–0.15 Hz (ms²). */
+  lf: number;
+  /** High-frequency power, 0.15–0.4 Hz (ms²). */
+  hf: number;
+  /** LF/HF ratio; 0 when HF power is negligible. */
+  lfHf: number;
+  /** Number of NN intervals the metrics were computed from. */
+  count: number;
+}
+
+// Below this many intervals the time-domain statistics are too noisy to show.
+const MIN_NN_INTERVALS = 20;
+
+const LF_BAND: [number, number] = [0.04, 0.15];
+const HF_BAND: [number, number] = [0.15, 0.4];
+const FREQ_STEP = 0.005;
+
+/**
+ * Time- and frequency-domain HRV from an inter-beat interval series (as
+ * returned by `extractInterBeatIntervals`). `times` are the beat times in ms
+ * and are only used for the spectral part; successive differences are not
+ * taken across `runStarts`.
+ *
+ * Note: a 60 s recording covers barely a few LF cycles, so LF and LF/HF from
+ * the 1-minute mode are indicative only; RMSSD is the robust short-term metric.
+ */
+export function computeHrv(
+  ibis: number[],
+  times: number[],
+  runStarts: number[] = [],
+): HrvMetrics | null {
+  if (ibis.length < MIN_NN_INTERVALS || ibis.length !== times.length) {
+    return null;
+  }
+
+  const meanNN = mean(ibis);
+  const sdnn = Math.sqrt(
+    ibis.reduce((sum, v) => sum + Math.pow(v - meanNN, 2), 0) /
+      (ibis.length - 1),
+  );
+
+  let sumSqDiff = 0;
+  let nn50 = 0;
+  let diffs = 0;
+  for (let i = 1; i < ibis.length; i++) {
+    if (!isSuccessive(i, runStarts)) continue;
+    const diff = ibis[i] - ibis[i - 1];
+    sumSqDiff += diff * diff;
+    if (Math.abs(diff) > 50) nn50++;
+    diffs++;
+  }
+  if (diffs === 0) return null;
+  const rmssd = Math.sqrt(sumSqDiff / diffs);
+  const pnn50 = (nn50 / diffs) * 100;
+
+  const { lf, hf } = computeSpectralBands(ibis, times);
+
+  return {
+    meanNN,
+    sdnn,
+    rmssd,
+    pnn50,
+    lf,
+    hf,
+    lfHf: hf > 1e-6 ? lf / hf : 0,
+    count: ibis.length,
+  };
+}
+
+/**
+ * Lomb-Scargle periodogram of the IBI series. Beats are unevenly spaced in
+ * time, so this avoids resampling onto a grid (which would low-pass the HF
+ * band). Scaled so the integrated band power is in ms².
+ */
+export function lombScargle(
+  values: number[],
+  timesSec: number[],
+  frequencies: number[],
+): number[] {
+  const n = values.length;
+  const avg = mean(values);
+  const y = values.map((v) => v - avg);
+  const duration = timesSec[n - 1] - timesSec[0];
+
+  return frequencies.map((f) => {
+    const w = 2 * Math.PI * f;
+
+    let sin2 = 0;
+    let cos2 = 0;
+    for (const t of timesSec) {
+      sin2 += Math.sin(2 * w * t);
+      cos2 += Math.cos(2 * w * t);
+    }
+    const tau = Math.atan2(sin2, cos2) / (2 * w);
+
+    let yc = 0;
+    let ys = 0;
+    let cc = 0;
+    let ss = 0;
+    for (let i = 0; i < n; i++) {
+      const c = Math.cos(w * (timesSec[i] - tau));
+      const s = Math.sin(w * (timesSec[i] - tau));
+      yc += y[i] * c;
+      ys += y[i] * s;
+      cc += c * c;
+      ss += s * s;
+    }
+
+    const power =
+      0.5 * ((cc > 0 ? (yc * yc) / cc : 0) + (ss > 0 ? (ys * ys) / ss : 0));
+    return (power * 2 * duration) / n;
+  });
+}
+
+function computeSpectralBands(
+  ibis: number[],
+  times: number[],
+): { lf: number; hf: number } {
+  const timesSec = times.map((t) => t / 1000);
+  const frequencies: number[] = [];
+  for (let f = LF_BAND[0]; f <= HF_BAND[1] + 1e-9; f += FREQ_STEP) {
+    frequencies.push(f);
+  }
+  const psd = lombScargle(ibis, timesSec, frequencies);
+
+  let lf = 0;
+  let hf = 0;
+  for (let i = 0; i < frequencies.length; i++) {
+    const f = frequencies[i];
+    if (f >= LF_BAND[0] && f < LF_BAND[1]) lf += psd[i] * FREQ_STEP;
+    else if (f >= HF_BAND[0] && f <= HF_BAND[1]) hf += psd[i] * FREQ_STEP;
+  }
+  return { lf, hf };
+}
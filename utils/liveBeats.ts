@@ -0,0 +1,90 @@
+import { MAX_BPM, median, MIN_BPM } from "@/utils/heartRateDetection";
+
+// A peak must reach this fraction of the median of recent peaks; smaller
+// bumps are noise riding on the wave.
+const MIN_PEAK_FRACTION = 0.4;
+const PEAK_HISTORY = 8;
+// No beat within this fraction of the previous interval, which keeps the
+// dicrotic notch from counting as a second beat.
+const REFRACTORY_FRACTION = 0.6;
+
+export interface LiveBeat {
+  /** Interval from the previous beat; null when it was out of range. */
+  ibiMs: number | null;
+}
+
+/**
+ * Streaming counterpart of `detectBeats`, for beat-by-beat feedback while a
+ * measurement runs. A systolic peak (a trough in the camera signal) is
+ * reported as soon as the next sample confirms it, so beats arrive one frame
+ * after the peak instead of once per analysis window. Samples flagged as
+ * artifacts are skipped, and a beat is only trusted once a few peaks have set
+ * the amplitude threshold.
+ */
+export class LiveBeatDetector {
+  private fs: number;
+  private minGap: number;
+  private maxGap: number;
+  private previous = 0;
+  private beforePrevious = 0;
+  private sample = 0;
+  private lastBeat: number | null = null;
+  private lastInterval: number | null = null;
+  private peaks: number[] = [];
+
+  constructor(fs: number) {
+    this.fs = fs;
+    this.minGap = (fs * 60) / MAX_BPM;
+    this.maxGap = (fs * 60) / MIN_BPM;
+  }
+
+  /** Feeds one filtered sample; a beat returned peaked at the previous one. */
+  process(filtered: number, artifact: boolean): LiveBeat | null {
+    const current = -filtered;
+    const amplitude = this.previous;
+    const peak =
+      !artifact &&
+      amplitude > 0 &&
+      amplitude > this.beforePrevious &&
+      amplitude >= current;
+    const at = this.sample - 1;
+    this.beforePrevious = this.previous;
+    this.previous = current;
+    this.sample++;
+    if (!peak) return null;
+
+    const gap = this.lastBeat !== null ? at - this.lastBeat : Infinity;
+    const refractory = Math.max(
+      this.minGap,
+      (this.lastInterval ?? 0) * REFRACTORY_FRACTION,
+    );
+    if (gap < refractory) return null;
+
+    // Only accepted peaks set the threshold; counting the rejected ones
+    // would let noise drag it down until noise passes as beats.
+    const ready = this.peaks.length >= 3;
+    const threshold = ready ? median(this.peaks) * MIN_PEAK_FRACTION : 0;
+    if (amplitude < threshold) return null;
+    this.peaks.push(amplitude);
+    if (this.peaks.length > PEAK_HISTORY) this.peaks.shift();
+
+    this.lastInterval = gap <= this.maxGap ? gap : null;
+    this.lastBeat = at;
+    if (!ready) return null;
+    return {
+      ibiMs:
+        this.lastInterval !== null
+          ? (this.lastInterval / this.fs) * 1000
+          : null,
+    };
+  }
+
+  reset() {
+    this.previous = 0;
+    this.beforePrevious = 0;
+    this.sample = 0;
+    this.lastBeat = null;
+    this.lastInterval = null;
+    this.peaks = [];
+  }
+}
@@ -0,0 +1,855 @@
+import { BpmTracker } from "@/utils/bpmTracker";
+import {
+  Coherence,
+  COHERENCE_WINDOW_MS,
+  computeCoherence,
+  isResonant,
+} from "@/utils/coherence";
+import {
+  assessSignalQuality,
+  combineBpmEstimates,
+  computePowerSpectrum,
+  detectBeats,
+  estimateBpmFromAutocorrelation,
+  estimateHeartRateFFT,
+  InterBeatIntervals,
+  MAX_BPM,
+  MAX_METHOD_DISAGREEMENT,
+  mean,
+  MIN_BPM,
+  PulseExtractor,
+  PulseMethod,
+  QualityBreakdown,
+  SlidingSpectrum,
+} from "@/utils/heartRateDetection";
+import { computeHrv, HrvMetrics } from "@/utils/hrv";
+import { LiveBeatDetector } from "@/utils/liveBeats";
+import {
+  applyArtifactMask,
+  expandArtifactMask,
+  extractCleanIntervals,
+  MAX_MASKED_FRACTION,
+  maskedFraction,
+  MotionArtifactDetector,
+} from "@/utils/motionArtifacts";
+import { FingerPresenceDetector } from "@/utils/fingerPresence";
+import {
+  FrameCoverage,
+  measureCoverage,
+  RegionCombiner,
+} from "@/utils/regionOfInterest";
+import { UniformResampler } from "@/utils/resampling";
+import { estimateRespiratoryRate } from "@/utils/respiration";
+import { assessRhythm, RhythmClass } from "@/utils/rhythm";
+import { diagnoseSignalQuality, SignalQuality } from "@/utils/signalQuality";
+
+export type CaptureMode =
+  "standard" | "minute" | "custom" | "continuous" | "breathing";
+
+export const CAPTURE_MODE_LABELS: Record<CaptureMode, string> = {
+  standard: "Standard",
+  minute: "1 Minute",
+  custom: "Custom",
+  continuous: "Continuous",
+  breathing: "Breathing",
+};
+
+// Range of a custom-mode or breathing recording; 5 min covers short-term HRV
+// protocols.
+export const MIN_CUSTOM_DURATION_MS = 30_000;
+export const MAX_CUSTOM_DURATION_MS = 300_000;
+
+// Rate of the uniform grid frames are resampled onto; the camera is asked for
+// the same rate but may deliver anything from 24 to 60 fps.
+export const SAMPLING_RATE = 30;
+
+// BPM estimation window: 6 s of signal
+export const WINDOW_SIZE = 180;
+
+const MIN_QUALITY_SCORE = 25;
+
+// The bandpass filter rings for about a second after a reset; beats detected
+// in that stretch are artefacts.
+export const FILTER_SETTLE_SAMPLES = SAMPLING_RATE;
+
+const MIN_VALID_READINGS = 12;
+
+// Losing the finger for up to this long pauses the measurement; a longer
+// loss restarts it.
+export const DEFAULT_MAX_PAUSE_MS = 10_000;
+
+// How long the "hold still" hint stays up after the last flagged sample
+const MOTION_HINT_MS = 1000;
+
+export const ANALYSIS_INTERVAL_MS = 500;
+const PROGRESS_INTERVAL_MS = 100;
+// Live guidance is refreshed this often, from the start of the measurement
+// rather than once the first analysis window has filled.
+const GUIDANCE_INTERVAL_MS = 500;
+
+const MAX_MEASUREMENT_DURATION_MS = 45_000; // Standard mode (safety timeout)
+// Full 60 s window so the average matches the Empatica per-minute pulse rate.
+const MINUTE_MEASUREMENT_DURATION_MS = 60_000;
+// Readings are also summarised per minute of measurement time; a final
+// partial minute shorter than this is left out.
+const SUMMARY_INTERVAL_MS = 60_000;
+const MIN_PARTIAL_SUMMARY_MS = 15_000;
+// HRV and rhythm screening need at least a minute of intervals
+const MIN_BEAT_ANALYSIS_MS = 60_000;
+// Breathing sessions rescore coherence this often
+const COHERENCE_INTERVAL_MS = 5000;
+export const DEFAULT_BREATHS_PER_MINUTE = 6;
+
+// Beat-level results computed from the whole recording once it completes
+export interface RecordingAnalysis {
+  hrv: HrvMetrics | null;
+  rhythm: RhythmClass | null;
+  respiratoryRate: number | null;
+  /** Clean NN intervals, timed in ms since the finger was detected. */
+  intervals: InterBeatIntervals | null;
+  /** Mean live coherence score of a breathing session. */
+  coherence: number | null;
+}
+
+/** One analysis window, as logged for storage and later re-analysis. */
+export interface WindowRecord {
+  /** Window end, ms since the finger was detected. */
+  timeMs: number;
+  /** Null when the window was skipped for motion. */
+  quality: number | null;
+  /** Combined estimate; 0 when the window produced none. */
+  bpm: number;
+}
+
+/** A finger loss the measurement paused over. */
+export interface PauseRecord {
+  /** Measurement time the finger was lost at, earlier pauses excluded. */
+  atMs: number;
+  durationMs: number;
+}
+
+// Everything recorded during the measurement, for storage
+export interface SessionCapture {
+  sampleRate: number;
+  /**
+   * Red channel level whatever the pulse method, as the reference for signal
+   * stability and the respiratory baseline.
+   */
+  red: number[];
+  filtered: number[];
+  /** Per-sample motion flags, aligned with `red` and `filtered`. */
+  artifacts: boolean[];
+  windows: WindowRecord[];
+  /**
+   * Window and beat times leave out paused time; these map them back onto
+   * the wall clock.
+   */
+  pauses: PauseRecord[];
+}
+
+/** Readings over one minute of measurement time. */
+export interface MinuteSummary {
+  /** 0-based. */
+  minute: number;
+  /** Measurement time covered; under a minute only for the final one. */
+  durationMs: number;
+  /** Mean of the minute's readings; 0 when it had none. */
+  bpm: number;
+  validReadings: number;
+  meanQuality: number;
+}
+
+// How the measurement went, stored with the reading
+export interface SessionSummary {
+  mode: CaptureMode;
+  durationMs: number;
+  /** Windows that produced a BPM reading. */
+  validReadings: number;
+  /** Mean quality score (0–100) over all analysed windows. */
+  meanQuality: number;
+  /**
+   * Fraction of windows with both estimates in which FFT and autocorrelation
+   * agreed; null when no window had both.
+   */
+  methodAgreement: number | null;
+  /** Camera frame rate actually delivered (Hz). */
+  sampleRate: number;
+  /** Times the finger was lost and put back without restarting. */
+  pauses: number;
+  /** Total time spent paused; not part of `durationMs`. */
+  pausedMs: number;
+  /** Pacer rate of a breathing session; null in the other modes. */
+  breathsPerMinute: number | null;
+}
+
+export type SessionPhase =
+  "waiting" | "measuring" | "paused" | "completed" | "aborted";
+
+export type SessionEvent =
+  | { type: "fingerDetected" }
+  | { type: "fingerLost" }
+  /** The finger was lost; put it back within `resumeWithinMs` to continue. */
+  | { type: "paused"; resumeWithinMs: number }
+  | { type: "resumed" }
+  | {
+      type: "reading";
+      bpm: number;
+      /** ~95% band half-width (standard mode only). */
+      uncertainty: number | null;
+      quality: number;
+    }
+  /**
+   * `progress` is the fraction done; continuous mode has no end, so there it
+   * is the fraction of the current minute.
+   */
+  | { type: "progress"; progress: number; elapsedMs: number }
+  | { type: "quality"; quality: SignalQuality }
+  /** One analysis window, whether or not it produced a reading. */
+  | { type: "window"; window: WindowRecord }
+  | { type: "minute"; summary: MinuteSummary }
+  /** A beat just detected in the live signal, about one frame after it. */
+  | { type: "beat"; ibiMs: number | null }
+  /** Breathing mode only; `resonant` when the rhythm follows the pacer. */
+  | { type: "coherence"; coherence: Coherence; resonant: boolean }
+  | {
+      type: "completed";
+      bpm: number;
+      analysis: RecordingAnalysis;
+      summary: SessionSummary;
+      minutes: MinuteSummary[];
+      capture: SessionCapture;
+    }
+  | { type: "aborted"; reason: "timeout" | "stopped" };
+
+export type SessionListener = (event: SessionEvent) => void;
+
+export interface SessionOptions {
+  mode: CaptureMode;
+  pulseMethod: PulseMethod;
+  /** Longest finger loss that pauses instead of restarting; 0 never pauses. */
+  maxPauseMs?: number;
+  /** Length of a custom or breathing recording, clamped to the allowed range. */
+  durationMs?: number;
+  /** Pacer rate of a breathing session. */
+  breathsPerMinute?: number;
+}
+
+export interface WindowEstimate {
+  quality: QualityBreakdown;
+  fftBpm: number;
+  autocorrBpm: number;
+  /** Combined estimate; 0 when the methods disagree or quality is too low. */
+  bpm: number;
+}
+
+/**
+ * One analysis window: artifact gating, spectrum, quality and the two BPM
+ * estimators. Returns null when too much of the window is masked to analyse.
+ * Pass the sliding spectrum that has been fed the same samples to skip the
+ * FFT on clean windows.
+ */
+export function analyzeWindow(
+  signal: number[],
+  redSignal: number[],
+  artifactFlags: boolean[],
+  spectrumTracker?: SlidingSpectrum,
+): WindowEstimate | null {
+  // Too much movement in the window: skip it rather than let the
+  // artifacts (or the few clean samples left) produce a reading.
+  const mask = expandArtifactMask(artifactFlags, SAMPLING_RATE);
+  if (maskedFraction(mask) > MAX_MASKED_FRACTION) return null;
+
+  const clean = applyArtifactMask(signal, mask);
+  const cleanRed = redSignal.filter((_, i) => !mask[i]);
+
+  // The sliding spectrum is already up to date for a clean window; a
+  // gated one needs the full FFT over the masked samples.
+  const spectrum =
+    spectrumTracker?.ready && !mask.some(Boolean)
+      ? spectrumTracker.spectrum()
+      : computePowerSpectrum(clean, SAMPLING_RATE);
+  const quality = assessSignalQuality(clean, SAMPLING_RATE, cleanRed, spectrum);
+  if (quality.score < MIN_QUALITY_SCORE) {
+    return { quality, fftBpm: 0, autocorrBpm: 0, bpm: 0 };
+  }
+
+  const fftBpm = estimateHeartRateFFT(clean, SAMPLING_RATE, spectrum);
+  const autocorrBpm = estimateBpmFromAutocorrelation(clean, SAMPLING_RATE);
+  return {
+    quality,
+    fftBpm,
+    autocorrBpm,
+    bpm: combineBpmEstimates(fftBpm, autocorrBpm),
+  };
+}
+
+/**
+ * One measurement, from waiting for a finger to the final reading, with no
+ * React or camera dependency. Feed it per-cell channel means (see
+ * `regionOfInterest`) with frame timestamps in ms; it resamples, extracts the
+ * pulse, runs the windowed analysis and reports through events. All timing
+ * is taken from the frame timestamps, so a recorded frame sequence replays
+ * identically.
+ */
+export class MeasurementSession {
+  readonly mode: CaptureMode;
+  /** Fixed recording length; null in standard and continuous mode. */
+  readonly targetDurationMs: number | null;
+  readonly breathsPerMinute: number | null;
+  private maxPauseMs: number;
+  private listeners = new Set<SessionListener>();
+  private currentPhase: SessionPhase = "waiting";
+
+  private extractor: PulseExtractor;
+  private finger = new FingerPresenceDetector();
+  private regions = new RegionCombiner(SAMPLING_RATE);
+  private artifacts = new MotionArtifactDetector(SAMPLING_RATE);
+  private resampler = new UniformResampler(SAMPLING_RATE);
+  private bpmTracker = new BpmTracker();
+  private spectrumTracker = new SlidingSpectrum(WINDOW_SIZE, SAMPLING_RATE);
+  private beats = new LiveBeatDetector(SAMPLING_RATE);
+
+  private signal: number[] = [];
+  // Red level alongside, whichever channel the pulse method reads
+  private redSignal: number[] = [];
+  // Whole filtered trace of the current measurement, for beat-level analysis
+  private recording: number[] = [];
+  private redRecording: number[] = [];
+  // Per-sample motion flags, aligned with `signal` and `recording`
+  private artifactFlags: boolean[] = [];
+  // Samples taken so far, and the ones live beats peaked at
+  private sampleCount = 0;
+  private beatSamples: number[] = [];
+  private recordingFlags: boolean[] = [];
+  private readings: number[] = [];
+  private qualities: number[] = [];
+  private windows: WindowRecord[] = [];
+  private minutes: MinuteSummary[] = [];
+  private minuteReadings: number[] = [];
+  private minuteQualities: number[] = [];
+  // Windows with both estimates, and those where the two agreed
+  private comparedWindows = 0;
+  private agreeingWindows = 0;
+  // Latest window's sub-scores, and frame coverage summed since the last
+  // guidance update
+  private windowQuality: QualityBreakdown | null = null;
+  private coverage: FrameCoverage = emptyCoverage();
+  private coverageFrames = 0;
+  private coherenceScores: number[] = [];
+
+  private startTime: number | null = null;
+  private pausedAt: number | null = null;
+  private pausedMs = 0;
+  private pauses: PauseRecord[] = [];
+  // Samples still to be masked while the filters recover from a pause
+  private settleRemaining = 0;
+  private lastMotion = -Infinity;
+  private lastFrameTime = 0;
+  private lastAnalysis = -Infinity;
+  private lastProgress = -Infinity;
+  private lastGuidance = -Infinity;
+  private lastCoherence = -Infinity;
+
+  constructor({
+    mode,
+    pulseMethod,
+    maxPauseMs = DEFAULT_MAX_PAUSE_MS,
+    durationMs = MINUTE_MEASUREMENT_DURATION_MS,
+    breathsPerMinute = DEFAULT_BREATHS_PER_MINUTE,
+  }: SessionOptions) {
+    this.mode = mode;
+    this.targetDurationMs =
+      mode === "minute"
+        ? MINUTE_MEASUREMENT_DURATION_MS
+        : mode === "custom" || mode === "breathing"
+          ? Math.min(
+              Math.max(durationMs, MIN_CUSTOM_DURATION_MS),
+              MAX_CUSTOM_DURATION_MS,
+            )
+          : null;
+    this.breathsPerMinute = mode === "breathing" ? breathsPerMinute : null;
+    this.maxPauseMs = maxPauseMs;
+    this.extractor = new PulseExtractor(pulseMethod, SAMPLING_RATE);
+  }
+
+  get phase(): SessionPhase {
+    return this.currentPhase;
+  }
+
+  /** Latest filtered samples, for the live waveform. */
+  waveform(length: number): number[] {
+    return this.signal.slice(-length);
+  }
+
+  /** Positions of the live beats within `waveform(length)`. */
+  beatMarkers(length: number): number[] {
+    const start = this.sampleCount - Math.min(length, this.signal.length);
+    return this.beatSamples.filter((b) => b >= start).map((b) => b - start);
+  }
+
+  get motionDetected(): boolean {
+    return this.lastFrameTime - this.lastMotion < MOTION_HINT_MS;
+  }
+
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  push(cells: number[], timeMs: number) {
+    if (this.currentPhase === "completed" || this.currentPhase === "aborted") {
+      return;
+    }
+    this.lastFrameTime = timeMs;
+    // Finger presence is judged on the whole frame; the pulse itself comes
+    // from the best-perfused cells.
+    const fingerPresent = this.finger.process(cells, timeMs);
+
+    if (this.currentPhase === "waiting") {
+      if (fingerPresent) {
+        this.begin(timeMs);
+        this.emit({ type: "fingerDetected" });
+        this.emit({ type: "progress", progress: 0, elapsedMs: 0 });
+      }
+      return;
+    }
+    if (this.currentPhase === "paused") {
+      if (!fingerPresent) {
+        if (timeMs - this.pausedAt! > this.maxPauseMs) this.restart();
+        return;
+      }
+      this.resume(timeMs);
+    } else if (!fingerPresent) {
+      if (this.maxPauseMs > 0) {
+        this.currentPhase = "paused";
+        this.pausedAt = timeMs;
+        this.emit({ type: "paused", resumeWithinMs: this.maxPauseMs });
+      } else {
+        this.restart();
+      }
+      return;
+    }
+
+    for (const sample of this.resampler.push(timeMs, cells)) {
+      const { red, green, blue } = this.regions.process(sample.values);
+      const filtered = this.extractor.process(red, green, blue);
+      // Samples bridged across dropped frames, taken while the finger briefly
+      // slipped or while the filters settle after a pause are masked like
+      // movement
+      const settling = this.settleRemaining > 0;
+      if (settling) this.settleRemaining--;
+      const artifact =
+        this.artifacts.process(red, filtered) ||
+        sample.gap ||
+        settling ||
+        !this.finger.inContact;
+
+      this.signal.push(filtered);
+      this.spectrumTracker.push(filtered);
+      this.redSignal.push(red);
+      this.artifactFlags.push(artifact);
+      this.recording.push(filtered);
+      this.redRecording.push(red);
+      this.recordingFlags.push(artifact);
+      if (this.signal.length > WINDOW_SIZE) {
+        this.signal.shift();
+        this.redSignal.shift();
+        this.artifactFlags.shift();
+      }
+
+      if (artifact) this.lastMotion = timeMs;
+
+      this.sampleCount++;
+      const beat = this.beats.process(filtered, artifact);
+      if (beat) {
+        this.beatSamples.push(this.sampleCount - 2);
+        if (this.sampleCount - this.beatSamples[0] > WINDOW_SIZE) {
+          this.beatSamples.shift();
+        }
+        this.emit({ type: "beat", ibiMs: beat.ibiMs });
+      }
+    }
+
+    const coverage = measureCoverage(cells);
+    this.coverage.saturation += coverage.saturation;
+    this.coverage.uncovered += coverage.uncovered;
+    this.coverage.brightness += coverage.brightness;
+    this.coverageFrames++;
+
+    const elapsedMs = this.elapsedAt(timeMs);
+
+    if (timeMs - this.lastProgress > PROGRESS_INTERVAL_MS) {
+      this.lastProgress = timeMs;
+      const progress =
+        this.targetDurationMs !== null
+          ? elapsedMs / this.targetDurationMs
+          : this.mode === "continuous"
+            ? (elapsedMs % SUMMARY_INTERVAL_MS) / SUMMARY_INTERVAL_MS
+            : this.signal.length / WINDOW_SIZE;
+      this.emit({
+        type: "progress",
+        progress: Math.min(progress, 1),
+        elapsedMs,
+      });
+    }
+
+    if (
+      this.signal.length === WINDOW_SIZE &&
+      timeMs - this.lastAnalysis > ANALYSIS_INTERVAL_MS
+    ) {
+      this.lastAnalysis = timeMs;
+      this.handleWindow(elapsedMs, timeMs);
+    }
+
+    if (
+      this.currentPhase === "measuring" &&
+      timeMs - this.lastGuidance > GUIDANCE_INTERVAL_MS
+    ) {
+      this.lastGuidance = timeMs;
+      this.emit({ type: "quality", quality: this.diagnose() });
+    }
+
+    if (
+      this.currentPhase === "measuring" &&
+      this.mode === "breathing" &&
+      timeMs - this.lastCoherence > COHERENCE_INTERVAL_MS
+    ) {
+      this.lastCoherence = timeMs;
+      this.updateCoherence();
+    }
+
+    // Standard mode without a single valid reading by the deadline
+    if (
+      this.currentPhase === "measuring" &&
+      this.mode === "standard" &&
+      elapsedMs >= MAX_MEASUREMENT_DURATION_MS &&
+      this.readings.length === 0
+    ) {
+      this.currentPhase = "aborted";
+      this.emit({ type: "aborted", reason: "timeout" });
+    }
+  }
+
+  /**
+   * Ends the session early; no result is produced. A continuous session is
+   * open-ended, so stopping it completes it instead, provided it produced a
+   * reading.
+   */
+  stop() {
+    if (this.currentPhase === "completed" || this.currentPhase === "aborted") {
+      return;
+    }
+    if (
+      this.mode === "continuous" &&
+      this.currentPhase !== "waiting" &&
+      this.readings.length > 0
+    ) {
+      const elapsedMs = this.elapsedAt(this.pausedAt ?? this.lastFrameTime);
+      this.complete(Math.round(mean(this.readings)), elapsedMs);
+      return;
+    }
+    this.currentPhase = "aborted";
+    this.emit({ type: "aborted", reason: "stopped" });
+  }
+
+  // Measurement time, excluding pauses
+  private elapsedAt(timeMs: number): number {
+    return this.startTime !== null
+      ? timeMs - this.startTime - this.pausedMs
+      : 0;
+  }
+
+  private begin(timeMs: number) {
+    this.currentPhase = "measuring";
+    this.startTime = timeMs;
+    this.pausedAt = null;
+    this.pausedMs = 0;
+    this.pauses = [];
+    this.settleRemaining = 0;
+    this.signal = [];
+    this.redSignal = [];
+    this.recording = [];
+    this.redRecording = [];
+    this.artifactFlags = [];
+    this.sampleCount = 0;
+    this.beatSamples = [];
+    this.recordingFlags = [];
+    this.readings = [];
+    this.qualities = [];
+    this.windows = [];
+    this.minutes = [];
+    this.minuteReadings = [];
+    this.minuteQualities = [];
+    this.comparedWindows = 0;
+    this.agreeingWindows = 0;
+    this.windowQuality = null;
+    this.coverage = emptyCoverage();
+    this.coverageFrames = 0;
+    this.coherenceScores = [];
+    this.lastMotion = -Infinity;
+    this.lastAnalysis = -Infinity;
+    this.lastProgress = -Infinity;
+    this.lastGuidance = -Infinity;
+    this.lastCoherence = -Infinity;
+    this.extractor.reset();
+    this.regions.reset();
+    this.artifacts.reset();
+    this.resampler.reset();
+    this.spectrumTracker.reset();
+    this.beats.reset();
+    this.bpmTracker.reset();
+  }
+
+  // The finger is back: the clock continues and the recording picks up where
+  // it stopped, with the join masked out of the analysis.
+  private resume(timeMs: number) {
+    this.pauses.push({
+      atMs: this.elapsedAt(this.pausedAt!),
+      durationMs: timeMs - this.pausedAt!,
+    });
+    this.pausedMs += timeMs - this.pausedAt!;
+    this.pausedAt = null;
+    this.settleRemaining = FILTER_SETTLE_SAMPLES;
+    this.currentPhase = "measuring";
+    this.emit({ type: "resumed" });
+  }
+
+  private restart() {
+    this.currentPhase = "waiting";
+    this.startTime = null;
+    this.pausedAt = null;
+    this.emit({ type: "fingerLost" });
+    this.emit({ type: "progress", progress: 0, elapsedMs: 0 });
+  }
+
+  private handleWindow(elapsedMs: number, timeMs: number) {
+    while (elapsedMs >= (this.minutes.length + 1) * SUMMARY_INTERVAL_MS) {
+      this.emit({
+        type: "minute",
+        summary: this.closeMinute(SUMMARY_INTERVAL_MS),
+      });
+    }
+
+    const estimate = analyzeWindow(
+      this.signal,
+      this.redSignal,
+      this.artifactFlags,
+      this.spectrumTracker,
+    );
+    this.windowQuality = estimate?.quality ?? null;
+    const window = {
+      timeMs: elapsedMs,
+      quality: estimate?.quality.score ?? null,
+      bpm: estimate?.bpm ?? 0,
+    };
+    this.windows.push(window);
+    this.emit({ type: "window", window });
+    if (!estimate) return;
+
+    const { bpm, fftBpm, autocorrBpm } = estimate;
+    const quality = estimate.quality.score;
+    this.qualities.push(quality);
+    this.minuteQualities.push(quality);
+    if (quality < MIN_QUALITY_SCORE) return;
+
+    if (fftBpm > 0 && autocorrBpm > 0) {
+      this.comparedWindows++;
+      if (Math.abs(fftBpm - autocorrBpm) < MAX_METHOD_DISAGREEMENT) {
+        this.agreeingWindows++;
+      }
+    }
+    const tracked = this.bpmTracker.update(
+      [fftBpm, autocorrBpm],
+      quality,
+      timeMs,
+    );
+    if (bpm < MIN_BPM || bpm > MAX_BPM) return;
+
+    this.readings.push(bpm);
+    this.minuteReadings.push(bpm);
+
+    // Fixed-length recordings report their running average; the others
+    // follow the tracked rate
+    const averaged = this.targetDurationMs !== null;
+    const displayBpm = Math.round(
+      averaged || !tracked ? mean(this.readings) : tracked.bpm,
+    );
+    this.emit({
+      type: "reading",
+      bpm: displayBpm,
+      uncertainty:
+        !averaged && tracked ? Math.round(tracked.uncertainty) : null,
+      quality,
+    });
+
+    if (this.targetDurationMs !== null) {
+      if (elapsedMs >= this.targetDurationMs) {
+        this.complete(displayBpm, elapsedMs);
+      }
+    } else if (
+      this.mode === "standard" &&
+      (this.readings.length >= MIN_VALID_READINGS ||
+        elapsedMs >= MAX_MEASUREMENT_DURATION_MS)
+    ) {
+      this.complete(displayBpm, elapsedMs);
+    }
+  }
+
+  private closeMinute(durationMs: number): MinuteSummary {
+    const summary = {
+      minute: this.minutes.length,
+      durationMs,
+      bpm: Math.round(mean(this.minuteReadings)),
+      validReadings: this.minuteReadings.length,
+      meanQuality: mean(this.minuteQualities),
+    };
+    this.minutes.push(summary);
+    this.minuteReadings = [];
+    this.minuteQualities = [];
+    return summary;
+  }
+
+  private complete(bpm: number, elapsedMs: number) {
+    this.currentPhase = "completed";
+    const partialMs = Math.min(
+      elapsedMs - this.minutes.length * SUMMARY_INTERVAL_MS,
+      SUMMARY_INTERVAL_MS,
+    );
+    if (partialMs >= MIN_PARTIAL_SUMMARY_MS) {
+      this.closeMinute(Math.round(partialMs));
+    }
+    this.emit({
+      type: "completed",
+      bpm,
+      analysis: this.analyzeRecording(elapsedMs),
+      summary: {
+        mode: this.mode,
+        durationMs: Math.round(elapsedMs),
+        validReadings: this.readings.length,
+        meanQuality: mean(this.qualities),
+        methodAgreement:
+          this.comparedWindows > 0
+            ? this.agreeingWindows / this.comparedWindows
+            : null,
+        sampleRate: this.resampler.estimatedRate,
+        pauses: this.pauses.length,
+        pausedMs: Math.round(this.pausedMs),
+        breathsPerMinute: this.breathsPerMinute,
+      },
+      minutes: this.minutes,
+      capture: {
+        sampleRate: SAMPLING_RATE,
+        red: this.redRecording,
+        filtered: this.recording,
+        artifacts: this.recordingFlags,
+        windows: this.windows,
+        pauses: this.pauses,
+      },
+    });
+  }
+
+  /** Guidance from the latest window and the frames since the last update. */
+  private diagnose(): SignalQuality {
+    const frames = Math.max(this.coverageFrames, 1);
+    const coverage = {
+      saturation: this.coverage.saturation / frames,
+      uncovered: this.coverage.uncovered / frames,
+      brightness: this.coverage.brightness / frames,
+    };
+    this.coverage = emptyCoverage();
+    this.coverageFrames = 0;
+    return diagnoseSignalQuality(
+      this.windowQuality,
+      coverage,
+      this.motionDetected,
+    );
+  }
+
+  // Coherence of the latest stretch of the recording, from its clean beats
+  private updateCoherence() {
+    const length = (COHERENCE_WINDOW_MS / 1000) * SAMPLING_RATE;
+    const start = Math.max(
+      FILTER_SETTLE_SAMPLES,
+      this.recording.length - length,
+    );
+    const mask = expandArtifactMask(
+      this.recordingFlags.slice(start),
+      SAMPLING_RATE,
+    );
+    const beats = detectBeats(
+      applyArtifactMask(this.recording.slice(start), mask),
+      SAMPLING_RATE,
+    );
+    const nn = extractCleanIntervals(beats, mask);
+    const coherence = computeCoherence(nn.ibis, nn.times);
+    if (!coherence) return;
+    this.coherenceScores.push(coherence.score);
+    this.emit({
+      type: "coherence",
+      coherence,
+      resonant: isResonant(coherence, this.breathsPerMinute!),
+    });
+  }
+
+  private analyzeRecording(durationMs: number): RecordingAnalysis {
+    const trace = this.recording.slice(FILTER_SETTLE_SAMPLES);
+    const red = this.redRecording.slice(FILTER_SETTLE_SAMPLES);
+    const mask = expandArtifactMask(
+      this.recordingFlags.slice(FILTER_SETTLE_SAMPLES),
+      SAMPLING_RATE,
+    );
+    const beats = detectBeats(applyArtifactMask(trace, mask), SAMPLING_RATE);
+
+    // Respiration tracks slow modulations across consecutive beats, which
+    // gaps would break, so it is only attempted on mostly clean recordings.
+    const respiration =
+      maskedFraction(mask) <= MAX_MASKED_FRACTION / 3
+        ? estimateRespiratoryRate(beats, red, SAMPLING_RATE)
+        : null;
+    const respiratoryRate = respiration
+      ? Math.round(respiration.breathsPerMinute)
+      : null;
+
+    const coherence =
+      this.coherenceScores.length > 0
+        ? Math.round(mean(this.coherenceScores))
+        : null;
+
+    if (durationMs < MIN_BEAT_ANALYSIS_MS) {
+      return {
+        hrv: null,
+        rhythm: null,
+        respiratoryRate,
+        intervals: null,
+        coherence,
+      };
+    }
+
+    const nn = extractCleanIntervals(beats, mask);
+    const all = extractCleanIntervals(beats, mask, false);
+    // Beat times count from the end of the settling stretch cut off above
+    const settleMs = (FILTER_SETTLE_SAMPLES / SAMPLING_RATE) * 1000;
+    return {
+      hrv: computeHrv(nn.ibis, nn.times, nn.runStarts),
+      rhythm: assessRhythm(
+        all.ibis,
+        all.rejected,
+        mean(this.qualities),
+        all.runStarts,
+      ).rhythm,
+      respiratoryRate,
+      intervals: { ...nn, times: nn.times.map((t) => t + settleMs) },
+      coherence,
+    };
+  }
+
+  private emit(event: SessionEvent) {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+function emptyCoverage(): FrameCoverage {
+  return { saturation: 0, uncovered: 0, brightness: 0 };
+}
@@ -0,0 +1,165 @@
+import {
+  Beat,
+  extractInterBeatIntervals,
+  InterBeatIntervals,
+  median,
+} from "@/utils/heartRateDetection";
+
+// Per-sample thresholds, as multiples of the running median of the same
+// quantity over recent clean samples.
+const DERIVATIVE_FACTOR = 6;
+const AMPLITUDE_FACTOR = 5;
+// Raw level departing this far (relative) from its 1 s baseline is a change
+// in finger pressure or position, not a pulse (which is ~1–2% of DC).
+const MAX_DC_SHIFT = 0.05;
+
+const HISTORY_S = 3;
+const BASELINE_TIME_CONSTANT_S = 1;
+
+// Samples around a flagged one that are masked too: the filter keeps ringing
+// for a while after a spike, and movement usually starts before it shows.
+const MASK_BEFORE_S = 0.25;
+const MASK_AFTER_S = 1;
+
+// Windows with more than this fraction masked are not analysed at all.
+export const MAX_MASKED_FRACTION = 0.3;
+
+/**
+ * Streaming motion-artifact detector. Flags a sample when the filtered
+ * signal's slope or amplitude jumps well above its recent median, or when the
+ * raw (DC) level shifts suddenly. Flagged samples are kept out of the running
+ * statistics so a burst of movement cannot raise its own thresholds.
+ */
+export class MotionArtifactDetector {
+  private derivatives: number[] = [];
+  private amplitudes: number[] = [];
+  private lastFiltered = 0;
+  private baseline = 0;
+  private historySize: number;
+  private baselineSmoothing: number;
+
+  constructor(fs: number) {
+    this.historySize = Math.round(HISTORY_S * fs);
+    this.baselineSmoothing = 1 / (BASELINE_TIME_CONSTANT_S * fs);
+  }
+
+  process(raw: number, filtered: number): boolean {
+    const derivative = Math.abs(filtered - this.lastFiltered);
+    const amplitude = Math.abs(filtered);
+    this.lastFiltered = filtered;
+    if (this.baseline === 0) this.baseline = raw;
+
+    const dcShift =
+      this.baseline > 0 ? Math.abs(raw - this.baseline) / this.baseline : 0;
+
+    let artifact = dcShift > MAX_DC_SHIFT;
+    if (this.derivatives.length === this.historySize) {
+      const maxDerivative = Math.max(
+        median(this.derivatives) * DERIVATIVE_FACTOR,
+        1e-9,
+      );
+      const maxAmplitude = Math.max(
+        median(this.amplitudes) * AMPLITUDE_FACTOR,
+        1e-9,
+      );
+      artifact ||= derivative > maxDerivative || amplitude > maxAmplitude;
+    }
+
+    if (!artifact) {
+      this.derivatives.push(derivative);
+      this.amplitudes.push(amplitude);
+      if (this.derivatives.length > this.historySize) {
+        this.derivatives.shift();
+        this.amplitudes.shift();
+      }
+      this.baseline += (raw - this.baseline) * this.baselineSmoothing;
+    } else {
+      // Let the baseline follow a lasting shift instead of flagging forever
+      this.baseline += (raw - this.baseline) * this.baselineSmoothing * 4;
+    }
+
+    return artifact;
+  }
+
+  reset() {
+    this.derivatives = [];
+    this.amplitudes = [];
+    this.lastFiltered = 0;
+    this.baseline = 0;
+  }
+}
+
+/** Widens per-sample artifact flags into a mask with margins on both sides. */
+export function expandArtifactMask(flags: boolean[], fs: number): boolean[] {
+  const before = Math.round(MASK_BEFORE_S * fs);
+  const after = Math.round(MASK_AFTER_S * fs);
+  const mask = new Array<boolean>(flags.length).fill(false);
+  for (let i = 0; i < flags.length; i++) {
+    if (!flags[i]) continue;
+    const end = Math.min(flags.length - 1, i + after);
+    for (let j = Math.max(0, i - before); j <= end; j++) mask[j] = true;
+  }
+  return mask;
+}
+
+export function maskedFraction(mask: boolean[]): number {
+  if (mask.length === 0) return 0;
+  return mask.filter(Boolean).length / mask.length;
+}
+
+/**
+ * Gates masked samples to zero. The filtered signal is zero-mean, so this
+ * removes the artifact's energy from the FFT and autocorrelation without
+ * shifting the baseline the way dropping samples would.
+ */
+export function applyArtifactMask(signal: number[], mask: boolean[]): number[] {
+  return signal.map((v, i) => (mask[i] ? 0 : v));
+}
+
+/**
+ * Inter-beat intervals that do not span a masked segment. Beats are split
+ * into clean runs and the intervals of each run concatenated, so a gap never
+ * shows up as one long (or ectopic-looking) interval; `runStarts` marks where
+ * each run after the first begins.
+ */
+export function extractCleanIntervals(
+  beats: Beat[],
+  mask: boolean[],
+  rejectEctopic = true,
+): InterBeatIntervals {
+  const result: InterBeatIntervals = {
+    ibis: [],
+    times: [],
+    rejected: 0,
+    runStarts: [],
+  };
+
+  let run: Beat[] = [];
+  const flush = () => {
+    const part = extractInterBeatIntervals(run, rejectEctopic);
+    if (result.ibis.length > 0 && part.ibis.length > 0) {
+      result.runStarts.push(result.ibis.length);
+    }
+    result.ibis.push(...part.ibis);
+    result.times.push(...part.times);
+    result.rejected += part.rejected;
+    run = [];
+  };
+
+  for (let i = 0; i < beats.length; i++) {
+    const from = i > 0 ? Math.floor(beats[i - 1].index) : 0;
+    const to = Math.ceil(beats[i].index);
+    let spansGap = false;
+    for (let j = from; j <= to && j < mask.length; j++) {
+      if (mask[j]) {
+        spansGap = true;
+        break;
+      }
+    }
+    if (spansGap) flush();
+    if (!mask[Math.round(beats[i].index)]) run.push(beats[i]);
+  }
+  flush();
+
+  return result;
+}
@@ -0,0 +1,80 @@
+import { InterBeatIntervals, mean } from "@/utils/heartRateDetection";
+import {
+  PauseRecord,
+  SAMPLING_RATE,
+  WINDOW_SIZE,
+  WindowRecord,
+} from "@/utils/measurementSession";
+
+const WINDOW_MS = (WINDOW_SIZE / SAMPLING_RATE) * 1000;
+
+// Beats searched for the shortest interval (around the 15th after standing)
+// and the longest (around the 30th), as in Ewing's 30:15 ratio.
+const SHORTEST_BEATS = [5, 25];
+const LONGEST_BEATS = [20, 40];
+
+/** Where a recording sits in its stage. */
+export interface StageClock {
+  /** Stage time the recording started at. */
+  offsetMs: number;
+  /** Pauses of the recording, whose time its own clock leaves out. */
+  pauses: PauseRecord[];
+}
+
+const RECORDING_CLOCK: StageClock = { offsetMs: 0, pauses: [] };
+
+/** Stage time of a window or beat `timeMs` into the recording. */
+export function toStageTime(timeMs: number, clock: StageClock): number {
+  let stageTime = clock.offsetMs + timeMs;
+  for (const pause of clock.pauses) {
+    if (pause.atMs <= timeMs) stageTime += pause.durationMs;
+  }
+  return stageTime;
+}
+
+/**
+ * Heart rate at `timeMs` into the stage: the mean of the valid windows
+ * centred within half a window of it. Null when none produced a reading.
+ */
+export function heartRateAt(
+  windows: WindowRecord[],
+  timeMs: number,
+  clock = RECORDING_CLOCK,
+): number | null {
+  const nearby = windows.filter(
+    (w) =>
+      w.bpm > 0 &&
+      Math.abs(toStageTime(w.timeMs - WINDOW_MS / 2, clock) - timeMs) <=
+        WINDOW_MS / 2,
+  );
+  return nearby.length > 0 ? Math.round(mean(nearby.map((w) => w.bpm))) : null;
+}
+
+/**
+ * Longest interval around the 30th beat after standing over the shortest
+ * around the 15th. Intervals dropped as artefacts and beats missed while the
+ * recording was paused or not yet started leave gaps, so beats are numbered
+ * from their stage times rather than their position in the list. Null when
+ * either range has no clean interval.
+ */
+export function thirtyFifteenRatio(
+  { ibis, times }: InterBeatIntervals,
+  clock = RECORDING_CLOCK,
+): number | null {
+  const stageTimes = times.map((t) => toStageTime(t, clock));
+  let shortest = Infinity;
+  let longest = 0;
+  let beat = 0;
+  for (let i = 0; i < ibis.length; i++) {
+    const span = i > 0 ? stageTimes[i] - stageTimes[i - 1] : stageTimes[i];
+    beat += Math.max(1, Math.round(span / ibis[i]));
+    if (beat >= SHORTEST_BEATS[0] && beat <= SHORTEST_BEATS[1]) {
+      shortest = Math.min(shortest, ibis[i]);
+    }
+    if (beat >= LONGEST_BEATS[0] && beat <= LONGEST_BEATS[1]) {
+      longest = Math.max(longest, ibis[i]);
+    }
+    if (beat > LONGEST_BEATS[1]) break;
+  }
+  return shortest < Infinity && longest > 0 ? longest / shortest : null;
+}
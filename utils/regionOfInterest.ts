@@ -0,0 +1,167 @@
+import { ButterworthFilter } from "@/utils/heartRateDetection";
+
+// The frame processor resizes each frame to GRID_SIZE x GRID_SIZE RGB pixels
+// and averages them in CELL_SIZE x CELL_SIZE blocks, giving CELL_COUNT cells.
+export const GRID_SIZE = 16;
+export const CELL_SIZE = 4;
+export const CELLS_PER_ROW = GRID_SIZE / CELL_SIZE;
+export const CELL_COUNT = CELLS_PER_ROW * CELLS_PER_ROW;
+
+// Values sent per cell: mean red, green, blue, fraction of clipped pixels.
+export const CELL_STRIDE = 4;
+
+// A pixel at or above this red level is treated as clipped.
+export const SATURATION_LEVEL = 250;
+
+// Cells darker than this (mean of the three channels) carry no pulse.
+const DARK_LEVEL = 10;
+// Cells with more clipped pixels than this have lost the pulsatile component.
+const MAX_SATURATION = 0.5;
+// Under a lit fingertip red dominates: tissue passes little green. Cells with
+// more green than this relative to red are looking past the finger.
+const COVERED_GREEN_RATIO = 0.6;
+// Weight smoothing time constant; weights change slowly so the shifting mix
+// of cells does not itself inject a step into the combined signal.
+const WEIGHT_TIME_CONSTANT_S = 2;
+
+export interface RgbSample {
+  red: number;
+  green: number;
+  blue: number;
+}
+
+/** Plain mean over all cells, as if the whole frame had been averaged. */
+export function averageCells(cells: number[]): RgbSample {
+  let red = 0;
+  let green = 0;
+  let blue = 0;
+  const count = cells.length / CELL_STRIDE;
+  for (let i = 0; i < cells.length; i += CELL_STRIDE) {
+    red += cells[i];
+    green += cells[i + 1];
+    blue += cells[i + 2];
+  }
+  return { red: red / count, green: green / count, blue: blue / count };
+}
+
+export interface FrameCoverage {
+  /** Mean fraction of clipped pixels over all cells. */
+  saturation: number;
+  /** Fraction of cells not covered by a lit fingertip. */
+  uncovered: number;
+  /** Mean red level of the covered cells; 0 when none are. */
+  brightness: number;
+}
+
+/** How well the finger covers and is lit in one frame, for user guidance. */
+export function measureCoverage(cells: number[]): FrameCoverage {
+  let saturation = 0;
+  let covered = 0;
+  let brightness = 0;
+  const count = cells.length / CELL_STRIDE;
+  for (let i = 0; i < cells.length; i += CELL_STRIDE) {
+    const red = cells[i];
+    saturation += cells[i + 3];
+    if (red > DARK_LEVEL && cells[i + 1] < red * COVERED_GREEN_RATIO) {
+      covered++;
+      brightness += red;
+    }
+  }
+  return {
+    saturation: saturation / count,
+    uncovered: 1 - covered / count,
+    brightness: covered > 0 ? brightness / covered : 0,
+  };
+}
+
+/**
+ * Combines the per-cell channel means into one RGB sample, weighting each cell
+ * by its perfusion index (cardiac-band RMS over DC), scaled down by how much
+ * of its variation is frame-to-frame sensor noise, and penalising clipping.
+ * Uncovered or torch-saturated parts of the lens end up with ~zero weight, so
+ * a partially covering finger still yields a clean pulse. Falls back to the
+ * plain frame mean until some cell has shown a pulse.
+ */
+export class RegionCombiner {
+  private filters: ButterworthFilter[];
+  private acPower: number[];
+  private noisePower: number[];
+  private previous: number[];
+  private dc: number[];
+  private weights: number[];
+  private smoothing: number;
+
+  constructor(fs: number) {
+    this.filters = Array.from(
+      { length: CELL_COUNT },
+      () => new ButterworthFilter(fs),
+    );
+    this.acPower = new Array(CELL_COUNT).fill(0);
+    this.noisePower = new Array(CELL_COUNT).fill(0);
+    this.previous = new Array(CELL_COUNT).fill(0);
+    this.dc = new Array(CELL_COUNT).fill(0);
+    this.weights = new Array(CELL_COUNT).fill(0);
+    this.smoothing = 1 / (WEIGHT_TIME_CONSTANT_S * fs);
+  }
+
+  process(cells: number[]): RgbSample {
+    let red = 0;
+    let green = 0;
+    let blue = 0;
+    let totalWeight = 0;
+
+    for (let c = 0; c < CELL_COUNT; c++) {
+      const o = c * CELL_STRIDE;
+      const luminance = (cells[o] + cells[o + 1] + cells[o + 2]) / 3;
+      const ac = this.filters[c].process(luminance);
+
+      const k = this.smoothing;
+      if (this.dc[c] === 0) this.dc[c] = this.previous[c] = luminance;
+      // Successive-difference power: white sensor noise dominates it, while
+      // the slow pulse wave barely contributes.
+      const step = luminance - this.previous[c];
+      this.previous[c] = luminance;
+      this.acPower[c] += (ac * ac - this.acPower[c]) * k;
+      this.noisePower[c] += (step * step - this.noisePower[c]) * k;
+      this.dc[c] += (luminance - this.dc[c]) * k;
+
+      const saturation = cells[o + 3];
+      const usable = this.dc[c] > DARK_LEVEL && saturation < MAX_SATURATION;
+      const ac2 = this.acPower[c];
+      const cleanliness = ac2 / (ac2 + this.noisePower[c] || 1);
+      const score = usable
+        ? (Math.sqrt(ac2) / this.dc[c]) * cleanliness * (1 - saturation)
+        : 0;
+      // Squared so the best-perfused cells dominate instead of merely leading
+      this.weights[c] += (score * score - this.weights[c]) * k;
+
+      const w = this.weights[c];
+      red += w * cells[o];
+      green += w * cells[o + 1];
+      blue += w * cells[o + 2];
+      totalWeight += w;
+    }
+
+    if (totalWeight < 1e-9) return averageCells(cells);
+    return {
+      red: red / totalWeight,
+      green: green / totalWeight,
+      blue: blue / totalWeight,
+    };
+  }
+
+  /** Current normalised cell weights, row-major. */
+  get cellWeights(): number[] {
+    const total = this.weights.reduce((a, b) => a + b, 0);
+    return this.weights.map((w) => (total > 0 ? w / total : 0));
+  }
+
+  reset() {
+    this.filters.forEach((f) => f.reset());
+    this.acPower.fill(0);
+    this.noisePower.fill(0);
+    this.previous.fill(0);
+    this.dc.fill(0);
+    this.weights.fill(0);
+  }
+}
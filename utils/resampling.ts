@@ -0,0 +1,88 @@
+import { median } from "@/utils/heartRateDetection";
+
+// Frame gaps longer than this are bridged but the bridged samples flagged,
+// since interpolating across several lost frames invents the waveform.
+const MAX_GAP_MS = 150;
+// Beyond this the dropout is not bridged at all; the grid restarts.
+const MAX_FILL_MS = 1000;
+
+const RATE_HISTORY = 60;
+
+export interface ResampledFrame {
+  values: number[];
+  /** True when the sample was interpolated across a frame gap. */
+  gap: boolean;
+}
+
+/**
+ * Resamples timestamped frames onto a uniform grid at `fs` by linear
+ * interpolation. The camera format may run anywhere from 24 to 60 fps and
+ * drops frames under load, while every filter and estimator downstream
+ * assumes a fixed rate. Each frame is a vector of values (e.g. per-cell
+ * channel means), all interpolated together.
+ */
+export class UniformResampler {
+  private period: number;
+  private lastTime: number | null = null;
+  private lastValues: number[] = [];
+  private nextTime = 0;
+  private intervals: number[] = [];
+
+  constructor(fs: number) {
+    this.period = 1000 / fs;
+  }
+
+  /** Camera frame rate estimated from recent frame intervals (Hz). */
+  get estimatedRate(): number {
+    if (this.intervals.length === 0) return 0;
+    return 1000 / median(this.intervals);
+  }
+
+  push(timeMs: number, values: number[]): ResampledFrame[] {
+    if (this.lastTime === null) {
+      this.lastTime = timeMs;
+      this.lastValues = values;
+      this.nextTime = timeMs + this.period;
+      return [{ values, gap: false }];
+    }
+
+    const dt = timeMs - this.lastTime;
+    // Duplicate or out-of-order timestamp
+    if (dt <= 0) return [];
+
+    this.intervals.push(dt);
+    if (this.intervals.length > RATE_HISTORY) this.intervals.shift();
+
+    if (dt > MAX_FILL_MS) {
+      this.lastTime = timeMs;
+      this.lastValues = values;
+      this.nextTime = timeMs + this.period;
+      return [{ values, gap: true }];
+    }
+
+    const gap = dt > MAX_GAP_MS;
+    const out: ResampledFrame[] = [];
+    while (this.nextTime <= timeMs) {
+      const frac = (this.nextTime - this.lastTime) / dt;
+      out.push({
+        values: values.map((v, i) => {
+          const prev = this.lastValues[i];
+          return prev + (v - prev) * frac;
+        }),
+        gap,
+      });
+      this.nextTime += this.period;
+    }
+
+    this.lastTime = timeMs;
+    this.lastValues = values;
+    return out;
+  }
+
+  reset() {
+    this.lastTime = null;
+    this.lastValues = [];
+    this.nextTime = 0;
+    this.intervals = [];
+  }
+}
@@ -0,0 +1,90 @@
+import { Beat, mean, median } from "@/utils/heartRateDetection";
+import { lombScargle } from "@/utils/hrv";
+
+// Shorter recordings hold too few breaths to resolve a respiratory peak.
+export const MIN_RESPIRATION_DURATION_S = 30;
+
+// 6–36 breaths/min
+const MIN_RESP_HZ = 0.1;
+const MAX_RESP_HZ = 0.6;
+const FREQ_STEP = 0.005;
+
+// The three modulation estimates must agree within this spread (breaths/min)
+// to be fused; otherwise at least one is tracking something else.
+const MAX_ESTIMATE_SPREAD = 4;
+
+export interface RespirationEstimate {
+  /** Fused respiratory rate in breaths per minute. */
+  breathsPerMinute: number;
+  /** Individual estimates from baseline, amplitude and frequency modulation. */
+  baseline: number;
+  amplitude: number;
+  frequency: number;
+}
+
+/**
+ * Respiratory rate from respiratory-induced modulation of the PPG. Breathing
+ * shifts the baseline (intensity variation), the pulse amplitude and the
+ * beat-to-beat interval (sinus arrhythmia); each is extracted per beat and its
+ * dominant frequency found with a Lomb-Scargle periodogram. The estimates are
+ * fused as in Karlen et al. (2013): averaged when they agree, rejected when
+ * they do not.
+ *
+ * `beats` come from `detectBeats` on the filtered trace; `rawSignal` is the
+ * unfiltered trace at the same sample indices.
+ */
+export function estimateRespiratoryRate(
+  beats: Beat[],
+  rawSignal: number[],
+  fs: number,
+): RespirationEstimate | null {
+  if (rawSignal.length < MIN_RESPIRATION_DURATION_S * fs) return null;
+  if (beats.length < 3) return null;
+
+  const times: number[] = [];
+  const baseline: number[] = [];
+  const amplitude: number[] = [];
+  const frequency: number[] = [];
+  for (let i = 1; i < beats.length; i++) {
+    const start = Math.round(beats[i - 1].index);
+    const end = Math.round(beats[i].index);
+    if (end <= start) continue;
+
+    times.push(beats[i].timeMs / 1000);
+    baseline.push(mean(rawSignal.slice(start, end)));
+    amplitude.push(beats[i].amplitude);
+    frequency.push(beats[i].timeMs - beats[i - 1].timeMs);
+  }
+  if (times.length < 10) return null;
+
+  const estimates = [baseline, amplitude, frequency].map((series) =>
+    dominantRate(series, times),
+  );
+  if (estimates.some((e) => e === 0)) return null;
+
+  const spread = Math.max(...estimates) - Math.min(...estimates);
+  if (spread > MAX_ESTIMATE_SPREAD) return null;
+
+  return {
+    breathsPerMinute: mean(estimates),
+    baseline: estimates[0],
+    amplitude: estimates[1],
+    frequency: estimates[2],
+  };
+}
+
+function dominantRate(series: number[], timesSec: number[]): number {
+  const frequencies: number[] = [];
+  for (let f = MIN_RESP_HZ; f <= MAX_RESP_HZ + 1e-9; f += FREQ_STEP) {
+    frequencies.push(f);
+  }
+  const psd = lombScargle(series, timesSec, frequencies);
+
+  let peak = 0;
+  for (let i = 1; i < psd.length; i++) if (psd[i] > psd[peak]) peak = i;
+
+  // A flat periodogram means there is no respiratory modulation to speak of.
+  if (psd[peak] < median(psd) * 3) return 0;
+
+  return frequencies[peak] * 60;
+}
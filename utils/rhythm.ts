@@ -0,0 +1,133 @@
+import { isSuccessive, mean } from "@/utils/heartRateDetection";
+
+export type RhythmClass = "regular" | "irregular" | "inconclusive";
+
+export interface RhythmAssessment {
+  rhythm: RhythmClass;
+  /** RMSSD normalised by the mean interval. */
+  nRmssd: number;
+  /** Shannon entropy of the interval histogram, normalised to 0–1. */
+  entropy: number;
+  /** Turning points per interior interval; ~2/3 for a random series. */
+  turningPointRatio: number;
+}
+
+export const RHYTHM_LABELS: Record<RhythmClass, string> = {
+  regular: "Regular rhythm",
+  irregular: "Irregular rhythm",
+  inconclusive: "Rhythm inconclusive",
+};
+
+export const RHYTHM_DISCLAIMER =
+  "Screening hint only, not a diagnosis. Talk to a doctor if you are concerned.";
+
+// Below this mean signal quality the beat series is too unreliable to judge.
+export const MIN_RHYTHM_QUALITY = 50;
+
+// A 60 s recording has ~60–90 intervals; fewer usually means dropped beats.
+const MIN_INTERVALS = 40;
+// More range-rejected intervals than this points at noise, not rhythm.
+const MAX_REJECTED_FRACTION = 0.2;
+
+// Thresholds after Dash et al. (2009), scaled to 1-minute segments.
+const NRMSSD_THRESHOLD = 0.1;
+const ENTROPY_THRESHOLD = 0.7;
+const ENTROPY_BINS = 16;
+const TRIMMED_OUTLIERS = 2;
+
+/**
+ * Non-diagnostic rhythm screening from a 1-minute interval series (collected
+ * with ectopic rejection turned off). A high normalised RMSSD alone is also
+ * seen with sinus arrhythmia, so "irregular" additionally requires either a
+ * flat interval histogram or a turning-point count consistent with a random
+ * series. Abstains ("inconclusive") when the recording quality is low.
+ * Differences and turning points are not taken across `runStarts`.
+ */
+export function assessRhythm(
+  ibis: number[],
+  rejected: number,
+  signalQuality: number,
+  runStarts: number[] = [],
+): RhythmAssessment {
+  const inconclusive: RhythmAssessment = {
+    rhythm: "inconclusive",
+    nRmssd: 0,
+    entropy: 0,
+    turningPointRatio: 0,
+  };
+
+  const total = ibis.length + rejected;
+  if (
+    signalQuality < MIN_RHYTHM_QUALITY ||
+    ibis.length < MIN_INTERVALS ||
+    rejected / total > MAX_REJECTED_FRACTION
+  ) {
+    return inconclusive;
+  }
+
+  let sumSqDiff = 0;
+  let diffs = 0;
+  for (let i = 1; i < ibis.length; i++) {
+    if (!isSuccessive(i, runStarts)) continue;
+    sumSqDiff += Math.pow(ibis[i] - ibis[i - 1], 2);
+    diffs++;
+  }
+  const turning = turningPoints(ibis, runStarts);
+  if (diffs === 0 || turning.interior === 0) return inconclusive;
+  const nRmssd = Math.sqrt(sumSqDiff / diffs) / mean(ibis);
+  const entropy = shannonEntropy(ibis);
+  const turningPointRatio = turning.count / turning.interior;
+
+  // Expected turning points of a random series the length of the runs
+  const n = turning.interior + 2;
+  const expectedTpr = (2 * n - 4) / 3 / (n - 2);
+  const tprSd = Math.sqrt((16 * n - 29) / 90) / (n - 2);
+  const randomLike = Math.abs(turningPointRatio - expectedTpr) < 2 * tprSd;
+
+  let rhythm: RhythmClass;
+  if (nRmssd <= NRMSSD_THRESHOLD) rhythm = "regular";
+  else if (entropy > ENTROPY_THRESHOLD || randomLike) rhythm = "irregular";
+  else rhythm = "inconclusive";
+
+  return { rhythm, nRmssd, entropy, turningPointRatio };
+}
+
+function shannonEntropy(ibis: number[]): number {
+  const sorted = [...ibis].sort((a, b) => a - b);
+  const trimmed = sorted.slice(TRIMMED_OUTLIERS, -TRIMMED_OUTLIERS);
+  const min = trimmed[0];
+  const width = (trimmed[trimmed.length - 1] - min) / ENTROPY_BINS;
+  if (width <= 0) return 0;
+
+  const counts = new Array(ENTROPY_BINS).fill(0);
+  for (const v of trimmed) {
+    counts[Math.min(Math.floor((v - min) / width), ENTROPY_BINS - 1)]++;
+  }
+
+  let entropy = 0;
+  for (const c of counts) {
+    if (c === 0) continue;
+    const p = c / trimmed.length;
+    entropy -= p * Math.log(p);
+  }
+  return entropy / Math.log(ENTROPY_BINS);
+}
+
+// Turning points among the intervals with a successive neighbour either side
+function turningPoints(
+  values: number[],
+  runStarts: number[],
+): { count: number; interior: number } {
+  let count = 0;
+  let interior = 0;
+  for (let i = 1; i < values.length - 1; i++) {
+    if (!isSuccessive(i, runStarts) || !isSuccessive(i + 1, runStarts)) {
+      continue;
+    }
+    const a = values[i] - values[i - 1];
+    const b = values[i + 1] - values[i];
+    if (a * b < 0) count++;
+    interior++;
+  }
+  return { count, interior };
+}
@@ -0,0 +1,77 @@
+// Quantised values are kept within ±Q_LIMIT so that the difference of any
+// two of them still fits an int16.
+const Q_LIMIT = 16383;
+
+export const SIGNAL_ENCODING = "delta-int16-v1";
+
+export interface EncodedSignal {
+  /** Multiplier applied before rounding; decoded value = q / scale. */
+  scale: number;
+  /** Base64 of little-endian int16: first value, then successive deltas. */
+  data: string;
+}
+
+/**
+ * Compact storage form for a sampled signal: values are quantised with a
+ * per-signal scale chosen to use the full int16 range, delta-encoded (camera
+ * traces change little between samples, which keeps the payload compressible
+ * by the transport) and base64-packed so it fits a plain text column.
+ */
+export function encodeSignal(values: number[]): EncodedSignal {
+  const peak = values.reduce((m, v) => Math.max(m, Math.abs(v)), 0);
+  const scale = peak > 0 ? Q_LIMIT / peak : 1;
+
+  const deltas = new Int16Array(values.length);
+  let previous = 0;
+  for (let i = 0; i < values.length; i++) {
+    const q = Math.round(values[i] * scale);
+    deltas[i] = q - previous;
+    previous = q;
+  }
+
+  const bytes = new Uint8Array(deltas.buffer);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return { scale, data: btoa(binary) };
+}
+
+export function decodeSignal({ scale, data }: EncodedSignal): number[] {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+
+  const deltas = new Int16Array(bytes.buffer, 0, bytes.length >> 1);
+  const values = new Array<number>(deltas.length);
+  let q = 0;
+  for (let i = 0; i < deltas.length; i++) {
+    q += deltas[i];
+    values[i] = q / scale;
+  }
+  return values;
+}
+
+/**
+ * Sparse storage form for per-sample flags: the flagged runs as a flat list
+ * of start and end (exclusive) indices. Motion flags come in short bursts, so
+ * this stays far smaller than one entry per sample.
+ */
+export function encodeFlags(flags: boolean[]): number[] {
+  const runs: number[] = [];
+  for (let i = 0; i < flags.length; i++) {
+    if (flags[i] && !flags[i - 1]) runs.push(i);
+    if (flags[i] && !flags[i + 1]) runs.push(i + 1);
+  }
+  return runs;
+}
+
+export function decodeFlags(runs: number[], length: number): boolean[] {
+  const flags = new Array<boolean>(length).fill(false);
+  for (let r = 0; r + 1 < runs.length; r += 2) {
+    for (let i = runs[r]; i < Math.min(runs[r + 1], length); i++) {
+      flags[i] = true;
+    }
+  }
+  return flags;
+}
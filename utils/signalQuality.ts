@@ -0,0 +1,66 @@
+import { QualityBreakdown } from "@/utils/heartRateDetection";
+import { FrameCoverage } from "@/utils/regionOfInterest";
+
+export type QualityIssue =
+  "motion" | "partialCoverage" | "pressure" | "lowLight";
+
+export interface SignalQuality {
+  /** Sub-scores of the latest analysis window; null until one is available. */
+  breakdown: QualityBreakdown | null;
+  /** Most likely reason the signal is poor; null when nothing stands out. */
+  cause: QualityIssue | null;
+}
+
+export const QUALITY_GUIDANCE: Record<QualityIssue, string> = {
+  motion: "Hold still, movement detected",
+  partialCoverage: "Cover the camera and flash completely",
+  pressure: "Press more lightly",
+  lowLight: "Too dark, make sure the flash is not blocked",
+};
+
+// Windows scoring at least this are left alone; a clean finger recording
+// scores about 40–50.
+const POOR_QUALITY_SCORE = 40;
+// Sub-scores below these point at the raw level drifting (the finger
+// shifting) and at a pulse too weak for the sensor noise.
+const WEAK_STABILITY = 0.5;
+const WEAK_SNR = 0.15;
+// More than this share of the lens uncovered lets ambient light in.
+const MAX_UNCOVERED = 0.25;
+// Mean clipped-pixel fraction above which the pulse is being flattened.
+const MAX_SATURATION = 0.2;
+// Below this the covered cells are too dim for a clean pulse.
+const MIN_BRIGHTNESS = 90;
+
+/**
+ * Picks the one thing the user should fix, in the order it matters: movement
+ * ruins every other measure, a partly covered lens lets ambient light swamp
+ * the pulse, then pressing too hard (the torch glare clips once the blood is
+ * squeezed out) and finally too little light. Pressure and light are only
+ * blamed once a window has scored poorly, and only when its sub-scores agree:
+ * a drifting level reads as movement, a weak pulse in a dim frame as too
+ * little light. A window that scores well gets no advice at all.
+ */
+export function diagnoseSignalQuality(
+  breakdown: QualityBreakdown | null,
+  coverage: FrameCoverage,
+  motion: boolean,
+): SignalQuality {
+  let cause: QualityIssue | null = null;
+  if (breakdown && breakdown.score >= POOR_QUALITY_SCORE) {
+    cause = null;
+  } else if (motion) {
+    cause = "motion";
+  } else if (coverage.uncovered > MAX_UNCOVERED) {
+    cause = "partialCoverage";
+  } else if (!breakdown) {
+    cause = null;
+  } else if (coverage.saturation > MAX_SATURATION) {
+    cause = "pressure";
+  } else if (breakdown.stability < WEAK_STABILITY) {
+    cause = "motion";
+  } else if (breakdown.snr < WEAK_SNR && coverage.brightness < MIN_BRIGHTNESS) {
+    cause = "lowLight";
+  }
+  return { breakdown, cause };
+}
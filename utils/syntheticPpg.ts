@@ -0,0 +1,222 @@
+import {
+  CELL_COUNT,
+  CELL_STRIDE,
+  SATURATION_LEVEL,
+} from "@/utils/regionOfInterest";
+
+export interface MotionBurst {
+  startS: number;
+  durationS: number;
+  /** Peak disturbance in pixel units. */
+  amplitude: number;
+}
+
+export interface SyntheticPpgOptions {
+  durationS: number;
+  /** Nominal camera frame rate. */
+  fps?: number;
+  bpm?: number;
+  /** Random beat-to-beat variability (SD of the intervals, ms). */
+  hrvSdMs?: number;
+  /** Breaths per minute; 0 disables all respiratory modulation. */
+  respirationRate?: number;
+  /** Respiratory sinus arrhythmia: peak interval change (ms). */
+  rsaMs?: number;
+  /** Relative respiratory modulation of the DC level. */
+  baselineModulation?: number;
+  /** Relative respiratory modulation of the pulse amplitude. */
+  amplitudeModulation?: number;
+  /** Mean red level; values near 255 clip the pulse (torch saturation). */
+  redLevel?: number;
+  /** Pulse amplitude relative to the red level (perfusion index). */
+  perfusion?: number;
+  /** Sensor noise SD of the frame mean, in pixel units, per channel. */
+  noise?: number;
+  /** Slow drift (finger pressure, temperature) in pixel units. */
+  baselineWander?: number;
+  motionBursts?: MotionBurst[];
+  /** Probability that any single frame is dropped. */
+  frameDropRate?: number;
+  /** Timestamp jitter SD (ms). */
+  jitterMs?: number;
+  /** Seed for the pseudo-random generator, so traces are reproducible. */
+  seed?: number;
+}
+
+export interface SyntheticFrame {
+  timeMs: number;
+  red: number;
+  green: number;
+  blue: number;
+}
+
+export interface SyntheticPpg {
+  frames: SyntheticFrame[];
+  /** Ground-truth systolic peak times (ms). */
+  beatTimesMs: number[];
+}
+
+// Green and blue sit far below red under a fingertip with the torch on, but
+// green carries a relatively stronger pulse (haemoglobin absorbs it more).
+const GREEN_LEVEL_RATIO = 0.22;
+const BLUE_LEVEL_RATIO = 0.1;
+const GREEN_PULSE_GAIN = 1.8;
+const BLUE_PULSE_GAIN = 0.8;
+
+const WANDER_FREQUENCY_HZ = 0.05;
+
+/**
+ * Synthetic fingertip camera trace. Each beat is a two-Gaussian pulse
+ * (systolic wave plus dicrotic wave) subtracted from the channel levels,
+ * since transmitted light drops as blood volume rises. Respiration modulates
+ * the beat intervals (RSA), the pulse amplitude and the DC level, the three
+ * signals the respiration estimator looks for. Frames can be dropped and
+ * jittered, and motion bursts add large low-frequency disturbances and DC
+ * shifts, so every stage of the pipeline can be exercised against a known
+ * ground truth.
+ */
+export function generatePpg(options: SyntheticPpgOptions): SyntheticPpg {
+  const {
+    durationS,
+    fps = 30,
+    bpm = 72,
+    hrvSdMs = 20,
+    respirationRate = 15,
+    rsaMs = 40,
+    baselineModulation = 0.005,
+    amplitudeModulation = 0.15,
+    redLevel = 180,
+    perfusion = 0.015,
+    noise = 0.1,
+    baselineWander = 2,
+    motionBursts = [],
+    frameDropRate = 0,
+    jitterMs = 0,
+    seed = 1,
+  } = options;
+
+  const random = mulberry32(seed);
+  const gaussian = () => {
+    // Box–Muller
+    const u = Math.max(random(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+
+  const durationMs = durationS * 1000;
+  const respHz = respirationRate / 60;
+  const breath = (tMs: number) =>
+    respHz > 0 ? Math.sin(2 * Math.PI * respHz * (tMs / 1000)) : 0;
+
+  // Beat schedule, starting half a beat in so the first pulse is complete
+  const meanIbi = 60_000 / bpm;
+  const beatTimesMs: number[] = [];
+  for (let t = meanIbi / 2; t < durationMs + meanIbi;) {
+    beatTimesMs.push(t);
+    t += Math.max(meanIbi + rsaMs * breath(t) + hrvSdMs * gaussian(), 250);
+  }
+
+  const wanderPhase = random() * 2 * Math.PI;
+  const burstPhases = motionBursts.map(() => random() * 2 * Math.PI);
+
+  const frames: SyntheticFrame[] = [];
+  let beat = 0;
+  for (let i = 0; i * (1000 / fps) < durationMs; i++) {
+    if (random() < frameDropRate) continue;
+    const timeMs = i * (1000 / fps) + jitterMs * gaussian();
+
+    while (beat < beatTimesMs.length - 2 && beatTimesMs[beat + 1] <= timeMs) {
+      beat++;
+    }
+    // Pulse shape over the interval from this beat's peak to the next one
+    const start = beatTimesMs[beat];
+    const ibi = beatTimesMs[beat + 1] - start;
+    const pulse = pulseShape((timeMs - start) / ibi, timeMs < start);
+
+    const resp = breath(timeMs);
+    const amplitude = perfusion * (1 + amplitudeModulation * resp);
+    let level = 1 + baselineModulation * resp;
+    let disturbance =
+      baselineWander *
+      Math.sin(
+        2 * Math.PI * WANDER_FREQUENCY_HZ * (timeMs / 1000) + wanderPhase,
+      );
+    motionBursts.forEach((b, k) => {
+      const into = timeMs / 1000 - b.startS;
+      if (into < 0 || into > b.durationS) return;
+      // Shaking at a few Hz on top of a pressure change
+      disturbance +=
+        b.amplitude *
+        (Math.sin(2 * Math.PI * 3 * into + burstPhases[k]) +
+          Math.sin((Math.PI * into) / b.durationS));
+      level *= 1 + 0.1 * Math.sin((Math.PI * into) / b.durationS);
+    });
+
+    const channel = (ratio: number, gain: number) =>
+      clip(
+        redLevel * ratio * level * (1 - amplitude * gain * pulse) +
+          disturbance * ratio +
+          noise * gaussian(),
+      );
+
+    frames.push({
+      timeMs,
+      red: channel(1, 1),
+      green: channel(GREEN_LEVEL_RATIO, GREEN_PULSE_GAIN),
+      blue: channel(BLUE_LEVEL_RATIO, BLUE_PULSE_GAIN),
+    });
+  }
+
+  return {
+    frames,
+    beatTimesMs: beatTimesMs.filter((t) => t < durationMs),
+  };
+}
+
+/**
+ * Expands a frame into the per-cell layout the frame processor sends, with a
+ * vignetting gradient across the grid (centre brightest) so the cells are not
+ * identical. Clipping is estimated per cell assuming pixels spread ±`spread`
+ * around the cell mean.
+ */
+export function frameToCells(frame: SyntheticFrame, spread = 10): number[] {
+  const cells = new Array<number>(CELL_COUNT * CELL_STRIDE);
+  const side = Math.sqrt(CELL_COUNT);
+  for (let c = 0; c < CELL_COUNT; c++) {
+    const dx = (c % side) - (side - 1) / 2;
+    const dy = Math.floor(c / side) - (side - 1) / 2;
+    const gain = 1 - 0.02 * (dx * dx + dy * dy);
+    const o = c * CELL_STRIDE;
+    cells[o] = clip(frame.red * gain);
+    cells[o + 1] = clip(frame.green * gain);
+    cells[o + 2] = clip(frame.blue * gain);
+    const over = (frame.red * gain + spread - SATURATION_LEVEL) / (2 * spread);
+    cells[o + 3] = Math.min(Math.max(over, 0), 1);
+  }
+  return cells;
+}
+
+function pulseShape(phase: number, beforeFirstBeat: boolean): number {
+  if (beforeFirstBeat) return 0;
+  // Systolic peak at the beat time, dicrotic wave half an interval later;
+  // the tail of the previous beat's systolic wave wraps around. Proportions
+  // give a second harmonic at about half the fundamental, as in fingertip PPG.
+  const systolic = (p: number) => Math.exp(-Math.pow(p / 0.2, 2));
+  const dicrotic = 0.25 * Math.exp(-Math.pow((phase - 0.5) / 0.15, 2));
+  return systolic(phase) + systolic(1 - phase) + dicrotic;
+}
+
+function clip(value: number): number {
+  return Math.min(Math.max(value, 0), 255);
+}
+
+// Small fast seeded PRNG (mulberry32), returns values in [0, 1)
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}